@@ -2,30 +2,48 @@ import { useAppStore } from './store/useAppStore'
 import { FileDropzone } from './components/FileDropzone'
 import { StatusLog } from './components/StatusLog'
 import { ErrorBoundary } from './components/ErrorBoundary'
-import { Settings as SettingsIcon, Moon, Sun } from 'lucide-react'
+import { Settings as SettingsIcon, History, Moon, Sun } from 'lucide-react'
 import { useEffect } from 'react'
 import { Settings } from './components/Settings'
+import { SessionHistory } from './components/SessionHistory'
+import { ResumeQueuePrompt } from './components/ResumeQueuePrompt'
+import { ProfileSwitcher } from './components/ProfileSwitcher'
+import { TokenLock } from './components/TokenLock'
 import { Toaster } from 'sonner'
-import './services/rateLimitInterceptor' // Initialize rate limit interceptor
+import { contentfulService } from './services/contentfulService'
 import { applyThemeClass } from './utils/theme'
 
 function App() {
-  const { credentials, showSettings, setShowSettings, isDarkMode, setIsDarkMode } = useAppStore()
+  const {
+    credentials,
+    showSettings,
+    setShowSettings,
+    showHistory,
+    setShowHistory,
+    isDarkMode,
+    setIsDarkMode,
+    recordApiEvent,
+    tokensLocked
+  } = useAppStore()
   
   const hasCredentials = credentials.spaceId && credentials.environmentId && credentials.token
-  const shouldShowSettings = showSettings
+  // The unlock prompt comes first while the tokens are locked
+  const shouldShowSettings = showSettings && !tokensLocked
 
   // Apply dark mode class to document
   useEffect(() => {
     applyThemeClass(isDarkMode)
   }, [isDarkMode])
 
+  // Feed API telemetry from the Contentful service into the store
+  useEffect(() => contentfulService.telemetry.subscribe(recordApiEvent), [recordApiEvent])
+
   // Force settings modal open until required credentials are provided
   useEffect(() => {
-    if (!hasCredentials && !showSettings) {
+    if (!hasCredentials && !showSettings && !tokensLocked) {
       setShowSettings(true)
     }
-  }, [hasCredentials, showSettings, setShowSettings])
+  }, [hasCredentials, showSettings, setShowSettings, tokensLocked])
 
   return (
     <ErrorBoundary>
@@ -34,7 +52,7 @@ function App() {
           {/* Header */}
           <div className="relative shrink-0">
             <div className="flex items-center justify-between min-h-20">
-              <div className="shrink-0">
+              <div className="shrink-0 flex items-center gap-2">
                 {hasCredentials && (
                   <button
                     onClick={() => setShowSettings(!showSettings)}
@@ -47,6 +65,15 @@ function App() {
                     </span>
                   </button>
                 )}
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  title="Past upload sessions"
+                >
+                  <History className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-200">History</span>
+                </button>
+                <ProfileSwitcher />
               </div>
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                 <div className="text-center">
@@ -77,6 +104,8 @@ function App() {
             </div>
           </div>
 
+          <ResumeQueuePrompt />
+
           {/* Main Content */}
           <div className="flex flex-col lg:flex-row gap-6 flex-1 min-h-0">
             <div className="w-full lg:w-1/3 h-full">
@@ -92,6 +121,8 @@ function App() {
             onClose={() => setShowSettings(false)} 
             canClose={!!hasCredentials} 
           />
+          <SessionHistory isOpen={showHistory} onClose={() => setShowHistory(false)} />
+          <TokenLock />
           <Toaster richColors position="top-right" theme={isDarkMode ? 'dark' : 'light'} />
         </div>
       </div>
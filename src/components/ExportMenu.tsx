@@ -0,0 +1,108 @@
+import React from 'react'
+import { Download } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { buildSessionExport, downloadSessionExport, EXPORT_COLUMNS, type ExportColumn, type ExportFormat } from '../utils/sessionExport'
+import { toSessionFileRecord, type SessionFileRecord } from '../utils/sessionHistory'
+import { toast } from 'sonner'
+
+interface ExportMenuProps {
+  // Archived files to export instead of the current queue
+  records?: SessionFileRecord[]
+  date?: Date
+}
+
+export function ExportMenu({ records, date }: ExportMenuProps) {
+  const { files, exportColumns, setExportColumns, enableTagging, tagNames, uploadStartTime, isDarkMode } = useAppStore()
+  const [isOpen, setIsOpen] = React.useState(false)
+  const menuRef = React.useRef<HTMLDivElement>(null)
+
+  React.useEffect(() => {
+    if (!isOpen) return
+
+    const handler = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [isOpen])
+
+  const toggleColumn = (column: ExportColumn, enabled: boolean) => {
+    setExportColumns(enabled ? [...exportColumns, column] : exportColumns.filter(c => c !== column))
+  }
+
+  const handleExport = (format: ExportFormat) => {
+    if (exportColumns.length === 0) {
+      toast.error('Pick at least one column to export')
+      return
+    }
+    const rows = records ?? files.map(file => toSessionFileRecord(file, enableTagging ? tagNames : []))
+    const content = buildSessionExport(rows, exportColumns, format)
+    downloadSessionExport(content, format, date ?? (uploadStartTime ? new Date(uploadStartTime) : undefined))
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn btn-secondary flex items-center gap-2"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+      {isOpen && (
+        <div
+          className={`absolute right-0 z-20 mt-2 w-64 rounded-lg border p-3 shadow-lg ${
+            isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-800'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium">Columns</span>
+            <div className="flex gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => setExportColumns(EXPORT_COLUMNS.map(column => column.value))}
+                className={isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'}
+              >
+                All
+              </button>
+              <button
+                type="button"
+                onClick={() => setExportColumns([])}
+                className={isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'}
+              >
+                None
+              </button>
+            </div>
+          </div>
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {EXPORT_COLUMNS.map(column => (
+              <label key={column.value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={exportColumns.includes(column.value)}
+                  onChange={(e) => toggleColumn(column.value, e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <button type="button" onClick={() => handleExport('csv')} className="btn btn-primary flex-1">
+              CSV
+            </button>
+            <button type="button" onClick={() => handleExport('json')} className="btn btn-secondary flex-1">
+              JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
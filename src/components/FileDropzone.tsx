@@ -1,12 +1,28 @@
 import React from 'react'
 import { useDropzone, type DropEvent, type FileRejection, type FileWithPath } from 'react-dropzone'
-import { Upload, FolderOpen, Play, Square, Loader2 } from 'lucide-react'
-import { useAppStore, type UploadFile } from '../store/useAppStore'
+import { Upload, FolderOpen, Play, Square, Loader2, FileSpreadsheet, AlertTriangle, X, Plug } from 'lucide-react'
+import { useAppStore, type NewUploadFile, type UploadFile } from '../store/useAppStore'
 import { contentfulService } from '../services/contentfulService'
-import type { Tag } from 'contentful-management'
+import { hashFile, MAX_FINGERPRINT_SIZE } from '../utils/fileHash'
+import { getFolderSegments, getFolderTags } from '../utils/folderPath'
+import { resolveAssetText } from '../utils/naming'
+import { buildEntryFieldValues } from '../utils/entryLinking'
+import { saveSession, toSessionFileRecord } from '../utils/sessionHistory'
+import { describeProfile } from '../utils/connectionProfiles'
+import { DEFAULT_VALIDATION_PROFILE, validateFile, validateImageDimensions } from '../utils/validation'
+import { detectContentType } from '../utils/fileType'
+import { applyEmbeddedMetadata, extractEmbeddedMetadata } from '../utils/imageMetadata'
+import { getFileToUpload, isOptimizableImage, optimizeImage } from '../utils/imageOptimizer'
+import { findManifestEntry, isManifestFile, parseManifestFile, type ManifestEntry } from '../utils/manifest'
+import { runWithRetries } from '../utils/retry'
+import { ConcurrencyController } from '../utils/concurrency'
+import { TagPicker } from './TagPicker'
+import type { Asset, Tag } from 'contentful-management'
 import { toast } from 'sonner'
 
 const CONNECTION_TOAST_ID = 'connection'
+// One warning per session is enough when fingerprints can't be saved
+const FINGERPRINT_TOAST_ID = 'fingerprint'
 
 export function FileDropzone() {
   const { 
@@ -25,22 +41,108 @@ export function FileDropzone() {
     setUploadEndTime,
     setFirstEstimate,
     resetRateLimitCount,
+    clearApiEvents,
     enableTagging,
     setEnableTagging,
-    tagName,
-    setTagName,
-    autoTagFromFolder
+    tagNames,
+    setTagNames,
+    newTagVisibility,
+    setNewTagVisibility,
+    setAvailableTags,
+    autoTagFromFolder,
+    folderTagLevels,
+    folderTitlePrefix,
+    readEmbeddedMetadata,
+    manifest,
+    setManifest,
+    namingRules,
+    entryLinking,
+    imageOptimization,
+    validationProfiles,
+    activeValidationProfileId,
+    setLocales,
+    extraLocales,
+    localeFieldValues,
+    checkDuplicates,
+    publishMode,
+    scheduledPublishAt,
+    retryMaxAttempts,
+    retryBaseDelayMs,
+    adaptiveConcurrency,
+    setCurrentConcurrency,
+    connectionProfiles,
+    activeConnectionProfileId
   } = useAppStore()
 
   const [abortController, setAbortController] = React.useState<AbortController | null>(null)
+  const validationProfile = validationProfiles.find(p => p.id === activeValidationProfileId) ?? validationProfiles[0] ?? DEFAULT_VALIDATION_PROFILE
+  const activeConnectionProfile = connectionProfiles.find(p => p.id === activeConnectionProfileId)
+  // The only retry policy; the SDK client itself doesn't retry
+  const retryPolicy = { maxAttempts: retryMaxAttempts, baseDelayMs: retryBaseDelayMs }
+  const manifestInputRef = React.useRef<HTMLInputElement>(null)
+  // In-flight optimisations, so an upload can wait for the ones started on drop
+  const optimizationJobs = React.useRef(new Map<string, Promise<void>>())
+
+  const optimizeFiles = React.useCallback((targets: UploadFile[]) => {
+    const settings = useAppStore.getState().imageOptimization
+    const concurrency = new ConcurrencyController({ limit: 2 })
+    const jobs = targets
+      // Files with a confirmed upload keep the binary they started with
+      .filter(file => isOptimizableImage(file.contentType ?? file.file.type) && !file.checkpoint?.uploadId)
+      .filter(file => !file.optimization || optimizationJobs.current.has(file.id))
+      .map(file => {
+        const existing = optimizationJobs.current.get(file.id)
+        if (existing) return existing
+
+        updateFileStatus(file.id, { optimization: 'running', optimizationError: undefined })
+        const job = (async () => {
+          await concurrency.acquire()
+          try {
+            const optimizedFile = await optimizeImage(file.file, settings)
+            updateFileStatus(file.id, { optimization: 'done', optimizedFile, contentHash: undefined })
+          } catch (error) {
+            console.warn(`Image optimisation failed for ${file.file.name}:`, error)
+            updateFileStatus(file.id, {
+              optimization: 'failed',
+              optimizationError: error instanceof Error ? error.message : 'Unknown error'
+            })
+          } finally {
+            concurrency.release()
+            optimizationJobs.current.delete(file.id)
+          }
+        })()
+        optimizationJobs.current.set(file.id, job)
+        return job
+      })
+    return Promise.all(jobs)
+  }, [updateFileStatus])
 
-  const onDrop = React.useCallback((
-    acceptedFiles: FileWithPath[],
-    _fileRejections: FileRejection[],
+  const importManifest = React.useCallback(async (file: File) => {
+    try {
+      const parsed = await parseManifestFile(file)
+      setManifest(parsed)
+      toast.success(`Loaded ${parsed.entries.length} row${parsed.entries.length === 1 ? '' : 's'} from ${file.name}`)
+      return true
+    } catch (error) {
+      console.error('Failed to read manifest:', error)
+      toast.error(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return false
+    }
+  }, [setManifest])
+
+  const onDrop = React.useCallback(async (
+    droppedFiles: FileWithPath[],
+    fileRejections: FileRejection[],
     _event: DropEvent
   ) => {
-    if (acceptedFiles.length === 0) {
-      toast.error('No files selected')
+    // A manifest dropped along with the files is loaded first so its values apply to them
+    const manifestFiles = droppedFiles.filter(isManifestFile)
+    for (const file of manifestFiles) {
+      await importManifest(file)
+    }
+    const acceptedFiles = droppedFiles.filter(file => !isManifestFile(file))
+    if (acceptedFiles.length === 0 && fileRejections.length === 0) {
+      if (manifestFiles.length === 0) toast.error('No files selected')
       return
     }
 
@@ -50,71 +152,89 @@ export function FileDropzone() {
       if (file.webkitRelativePath) return file.webkitRelativePath
       return file.name
     }
-    const normalizeRelativePath = (path: string) =>
-      path
-        .replace(/\\/g, '/')
-        .replace(/^(\.\/)+/, '')
-
-    let folderDropped = false
-    let skippedSubfolderFiles = 0
-    const topFolderNames = new Set<string>()
-    const filesFromTopFolders: File[] = []
-
-    acceptedFiles.forEach((file) => {
-      const rawRelativePath = getRelativePath(file as FileWithPossibleRelativePath)
-      const relativePath = normalizeRelativePath(rawRelativePath)
-      const segments = relativePath.split('/').filter(Boolean)
-
-      if (segments.length <= 1) {
-        filesFromTopFolders.push(file)
-        return
-      }
 
-      folderDropped = true
-      const [topFolder, ...rest] = segments
-      if (topFolder) {
-        topFolderNames.add(topFolder)
+    const folders = new Set<string>()
+    const toEntry = (file: FileWithPath, rejectionReason?: string): NewUploadFile => {
+      const segments = getFolderSegments(getRelativePath(file as FileWithPossibleRelativePath))
+      if (segments.length === 0) return { file, rejectionReason }
+
+      const folderPath = segments.join('/')
+      folders.add(folderPath)
+      return {
+        file,
+        folderPath,
+        rejectionReason,
+        tags: autoTagFromFolder ? getFolderTags(segments, folderTagLevels) : undefined,
+        title: folderTitlePrefix ? `${folderPath}/${file.name}` : undefined
       }
-
-      if (rest.length > 1) {
-        skippedSubfolderFiles += 1
-        return
-      }
-
-      filesFromTopFolders.push(file)
-    })
-
-    if (folderDropped && filesFromTopFolders.length === 0) {
-      toast.warning('Subfolders detected. Only files in the top folder can be added. Drop each subfolder separately.')
-      return
     }
 
-    if (filesFromTopFolders.length === 0) {
-      toast.error('No files selected')
-      return
+    // Type and size were checked by the dropzone; pixel dimensions need the image decoded
+    const entries: NewUploadFile[] = await Promise.all([
+      ...acceptedFiles.map(async (file) => {
+        const { contentType, mismatch } = await detectContentType(file)
+        const rejectionReason = await validateImageDimensions(file, validationProfile, contentType)
+        const entry = { ...toEntry(file, rejectionReason), contentType, typeMismatch: mismatch }
+        if (!readEmbeddedMetadata || rejectionReason || !contentType.startsWith('image/')) return entry
+
+        try {
+          const metadata = await extractEmbeddedMetadata(file)
+          return metadata ? applyEmbeddedMetadata(entry, metadata) : entry
+        } catch (error) {
+          console.warn(`Could not read embedded metadata from ${file.name}:`, error)
+          return entry
+        }
+      }),
+      ...fileRejections.map(async ({ file, errors }) => {
+        const { contentType, mismatch } = await detectContentType(file)
+        return { ...toEntry(file, errors.map(e => e.message).join('; ')), contentType, typeMismatch: mismatch }
+      })
+    ])
+
+    addFiles(entries)
+    const queued = entries.filter(entry => !entry.rejectionReason)
+    const rejectedCount = entries.length - queued.length
+    if (imageOptimization.enabled && queued.length > 0) {
+      const queuedFiles = new Set(queued.map(entry => entry.file))
+      void optimizeFiles(useAppStore.getState().files.filter(f => queuedFiles.has(f.file)))
     }
 
-    if (skippedSubfolderFiles > 0) {
-      toast.warning(
-        `Skipped ${skippedSubfolderFiles} file${skippedSubfolderFiles === 1 ? '' : 's'} inside subfolders. Drop each subfolder separately to upload them.`
+    if (queued.length > 0) {
+      const added = `Added ${queued.length} file${queued.length === 1 ? '' : 's'}`
+      toast.success(
+        folders.size > 0 ? `${added} from ${folders.size} folder${folders.size === 1 ? '' : 's'}` : added
       )
     }
+    if (rejectedCount > 0) {
+      toast.warning(`${rejectedCount} file${rejectedCount === 1 ? ' was' : 's were'} rejected by the "${validationProfile.name}" profile`)
+    }
+  }, [addFiles, autoTagFromFolder, folderTagLevels, folderTitlePrefix, importManifest, imageOptimization.enabled, optimizeFiles, readEmbeddedMetadata, validationProfile])
 
-    addFiles(filesFromTopFolders)
-    toast.success(`Added ${filesFromTopFolders.length} file${filesFromTopFolders.length === 1 ? '' : 's'}`)
-
-    if (folderDropped && autoTagFromFolder) {
-      const primaryFolderName = topFolderNames.values().next().value as string | undefined
-      const sanitizedTagName = primaryFolderName?.trim()
-      if (sanitizedTagName) {
-        setEnableTagging(true)
-        setTagName(sanitizedTagName)
+  const manifestReport = React.useMemo(() => {
+    if (!manifest) return undefined
+    const matchedEntries = new Set<ManifestEntry>()
+    const unmatchedFiles: UploadFile[] = []
+    files.forEach(file => {
+      const entry = findManifestEntry(manifest, file)
+      if (entry) {
+        matchedEntries.add(entry)
+      } else {
+        unmatchedFiles.push(file)
       }
-    }
-  }, [addFiles, autoTagFromFolder, setEnableTagging, setTagName])
+    })
+    const unmatchedRows = manifest.entries.filter(entry => !matchedEntries.has(entry))
+    return { matched: files.length - unmatchedFiles.length, unmatchedRows, unmatchedFiles }
+  }, [manifest, files])
+
+  const validator = React.useCallback((file: File) => {
+    if (isManifestFile(file)) return null
+    const reason = validateFile(file, validationProfile)
+    return reason ? { code: 'validation-profile', message: reason } : null
+  }, [validationProfile])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    validator,
     multiple: true
   })
 
@@ -131,8 +251,24 @@ export function FileDropzone() {
       return
     }
 
-    if (enableTagging && !tagName.trim()) {
-      toast.error('Enter a tag name or disable tagging before uploading')
+    if (enableTagging && tagNames.length === 0) {
+      toast.error('Add at least one tag or disable tagging before uploading')
+      return
+    }
+
+    if (entryLinking.enabled && (!entryLinking.contentTypeId || !entryLinking.assetFieldId)) {
+      toast.error('Pick a content type and asset field for linked entries in Settings, or turn them off')
+      return
+    }
+
+    if (manifestReport && manifestReport.unmatchedFiles.length > 0) {
+      toast.warning(
+        `${manifestReport.unmatchedFiles.length} file${manifestReport.unmatchedFiles.length === 1 ? ' has' : 's have'} no manifest row and will use default values`
+      )
+    }
+
+    if (publishMode === 'schedule' && (!scheduledPublishAt || new Date(scheduledPublishAt).getTime() <= Date.now())) {
+      toast.error('Pick a publish date in the future in Settings before uploading')
       return
     }
 
@@ -147,11 +283,14 @@ export function FileDropzone() {
     setUploadStartTime(undefined)
     setUploadEndTime(undefined)
     setFirstEstimate(undefined)
-    setUploadStartTime(Date.now())
+    const sessionStartTime = Date.now()
+    setUploadStartTime(sessionStartTime)
     resetRateLimitCount()
+    clearApiEvents()
 
     toast.loading('Connecting to Contentful...', { id: CONNECTION_TOAST_ID })
 
+    let connected = false
     try {
       // Connect to Contentful
       const connection = await contentfulService.connect(credentials)
@@ -163,30 +302,27 @@ export function FileDropzone() {
         return
       }
 
+      connected = true
       setIsConnected(true)
       setIsConnecting(false)
+      setLocales(connection.locales ?? [])
       toast.success('Connected to Contentful!', { id: CONNECTION_TOAST_ID })
 
-      // Find or create private tag if tagging is enabled
-      let tag: Tag | undefined = undefined
-      if (enableTagging && tagName.trim()) {
-        const tagResult = await contentfulService.findOrCreatePrivateTag(tagName.trim())
-        if (tagResult.success && tagResult.tag) {
-          tag = tagResult.tag
-        } else {
-          console.warn('Failed to find or create tag:', tagResult.error)
-        }
-      }
+      // Find or create every session and per-file tag once, keyed by lower-cased name
+      const tagsByName = await resolveTags()
 
       // Upload files with concurrency control (using sorted order)
       const getStatusPriority = (status: string) => {
         switch (status) {
           case 'processing': return 1
-          case 'pending': return 2
-          case 'failed': return 3
-          case 'cancelled': return 4
-          case 'completed': return 5
-          default: return 6
+          case 'duplicate': return 2
+          case 'pending': return 3
+          case 'failed': return 4
+          case 'cancelled': return 5
+          case 'skipped': return 6
+          case 'completed': return 7
+          case 'rejected': return 8
+          default: return 9
         }
       }
 
@@ -199,16 +335,41 @@ export function FileDropzone() {
         return a.file.name.localeCompare(b.file.name)
       })
 
-      const pendingFiles = sortedFiles.filter(f => f.status === 'pending')
+      let pendingFiles = sortedFiles.filter(f => f.status === 'pending')
+      if (imageOptimization.enabled) {
+        await optimizeFiles(pendingFiles)
+        // Pick up the optimised copies
+        const latest = new Map(useAppStore.getState().files.map(f => [f.id, f]))
+        pendingFiles = pendingFiles.map(f => latest.get(f.id) ?? f)
+      }
+      if (checkDuplicates) {
+        pendingFiles = await runDuplicatePreflight(pendingFiles, controller)
+      }
+
       const uploadPromises: Promise<void>[] = []
-      const semaphore = new Semaphore(parallelCount)
+      const concurrency = new ConcurrencyController({
+        limit: parallelCount,
+        adaptive: adaptiveConcurrency,
+        onLimitChange: setCurrentConcurrency
+      })
+
+      // Back off whenever a new rate-limit hit is recorded during the session
+      const unsubscribeRateLimits = useAppStore.subscribe((state, prevState) => {
+        if (state.rateLimitCount > prevState.rateLimitCount) {
+          concurrency.recordRateLimit()
+        }
+      })
 
       for (const file of pendingFiles) {
-        const promise = uploadFileWithSemaphore(file, semaphore, controller, tag)
+        const promise = uploadFileWithConcurrency(file, concurrency, controller, tagsByName)
         uploadPromises.push(promise)
       }
 
-      await Promise.all(uploadPromises)
+      try {
+        await Promise.all(uploadPromises)
+      } finally {
+        unsubscribeRateLimits()
+      }
       
       // Set end time when all uploads complete
       setUploadEndTime(Date.now())
@@ -227,12 +388,195 @@ export function FileDropzone() {
       setIsConnecting(false)
       setIsConnected(false)
       setAbortController(null)
+      setCurrentConcurrency(undefined)
+      if (connected) {
+        void archiveSession(sessionStartTime)
+      }
       // Don't reset timing here - let it persist for the session summary
     }
   }
 
-  const uploadFileWithSemaphore = async (file: UploadFile, semaphore: Semaphore, abortController: AbortController, tag?: Tag) => {
-    await semaphore.acquire()
+  // Per-file values from a manifest win over the session's locale fields
+  const mergeLocaleFields = (file: UploadFile) => {
+    if (!file.localeFields) return localeFieldValues
+    const merged = { ...localeFieldValues }
+    Object.entries(file.localeFields).forEach(([code, values]) => {
+      merged[code] = { ...merged[code], ...values }
+    })
+    return merged
+  }
+
+  const getFileTagNames = (file: UploadFile) => [
+    ...(enableTagging ? tagNames : []),
+    ...(file.tags ?? [])
+  ]
+
+  // Keeps a record of the run in the session history once the File objects are gone
+  const archiveSession = async (startedAt: number) => {
+    const state = useAppStore.getState()
+    const sessionTags = state.enableTagging ? state.tagNames : []
+    try {
+      await saveSession({
+        id: `session-${startedAt}`,
+        startedAt,
+        endedAt: state.uploadEndTime ?? Date.now(),
+        spaceId: credentials.spaceId,
+        environmentId: credentials.environmentId,
+        profileName: activeConnectionProfile?.name,
+        tags: sessionTags,
+        files: state.files.map(file => toSessionFileRecord(file, sessionTags))
+      })
+    } catch (error) {
+      console.warn('Could not save the session to the history:', error)
+    }
+  }
+
+  // A failed entry leaves the uploaded asset in place; the error is shown on the file
+  const createLinkedEntry = async (
+    file: UploadFile,
+    asset: Asset,
+    text: { title: string; description: string },
+    signal: AbortSignal
+  ): Promise<Partial<UploadFile>> => {
+    const values = buildEntryFieldValues(entryLinking.mappings, file, text, getFileTagNames(file))
+    const result = await runWithRetries(
+      () => contentfulService.createLinkedEntry(asset, entryLinking, values),
+      retryPolicy,
+      { signal }
+    )
+    if (result.success && result.entry) {
+      return {
+        entryId: result.entry.sys.id,
+        entryUrl: contentfulService.getEntryUrl(result.entry.sys.id, credentials.spaceId, credentials.environmentId),
+        entryError: undefined
+      }
+    }
+    toast.warning(`Uploaded ${file.file.name}, but its entry could not be created: ${result.error}`)
+    return { entryError: result.error }
+  }
+
+  const resolveTags = async () => {
+    const tagsByName = new Map<string, Tag>()
+    const wanted = new Map<string, string>()
+    files.forEach(file => {
+      getFileTagNames(file).forEach(name => wanted.set(name.toLowerCase(), name))
+    })
+    if (wanted.size === 0) return tagsByName
+
+    const existing = await contentfulService.getTags()
+    const existingTags = existing.tags ?? []
+    const failed: string[] = []
+
+    for (const [key, name] of wanted) {
+      const tagResult = await runWithRetries(
+        () => contentfulService.findOrCreateTag(name, newTagVisibility, existingTags),
+        retryPolicy
+      )
+      if (tagResult.success && tagResult.tag) {
+        tagsByName.set(key, tagResult.tag)
+        if (!existingTags.includes(tagResult.tag)) existingTags.push(tagResult.tag)
+      } else {
+        console.warn(`Failed to find or create tag ${name}:`, tagResult.error)
+        failed.push(name)
+      }
+    }
+
+    setAvailableTags(existingTags.map(tag => ({ id: tag.sys.id, name: tag.name, visibility: tag.sys.visibility })))
+    if (failed.length > 0) {
+      toast.warning(`Could not create tag${failed.length === 1 ? '' : 's'}: ${failed.join(', ')}`)
+    }
+    return tagsByName
+  }
+
+  // Hashes a file once per binary; files over the cap are left to name and size matching
+  const getContentHash = async (file: UploadFile, source: File) => {
+    const known = useAppStore.getState().files.find(f => f.id === file.id)?.contentHash
+    if (known) return known
+    if (source.size > MAX_FINGERPRINT_SIZE) return undefined
+    try {
+      const contentHash = await hashFile(source)
+      updateFileStatus(file.id, { contentHash })
+      return contentHash
+    } catch (error) {
+      console.warn(`Could not fingerprint ${file.file.name}:`, error)
+      return undefined
+    }
+  }
+
+  // Flags queued files that already exist in the environment and returns the ones that can upload now
+  const runDuplicatePreflight = async (pendingFiles: UploadFile[], abortController: AbortController) => {
+    // Files resuming a previous attempt would match the asset they created themselves
+    const toCheck = pendingFiles.filter(f => !f.duplicateAction && !f.targetAssetId && !f.checkpoint?.assetId)
+    if (toCheck.length === 0) return pendingFiles
+
+    const toastId = toast.loading(`Checking ${toCheck.length} file${toCheck.length === 1 ? '' : 's'} for duplicates...`)
+    const concurrency = new ConcurrencyController({ limit: parallelCount })
+    const duplicateIds = new Set<string>()
+
+    await Promise.all(toCheck.map(async (file) => {
+      await concurrency.acquire()
+      try {
+        if (abortController.signal.aborted) return
+
+        const source = getFileToUpload(file)
+        const contentHash = await getContentHash(file, source)
+        const result = await contentfulService.findDuplicateAssets(source, contentHash)
+        if (!result.success) {
+          console.warn(`Duplicate check failed for ${file.file.name}:`, result.error)
+          return
+        }
+
+        const [match] = result.duplicates
+        if (!match) return
+
+        let assetUrl: string | undefined
+        try {
+          assetUrl = contentfulService.getAssetUrl(match.asset)
+        } catch {
+          assetUrl = undefined
+        }
+
+        duplicateIds.add(file.id)
+        updateFileStatus(file.id, {
+          status: 'duplicate',
+          duplicateOf: {
+            assetId: match.asset.sys.id,
+            matchType: match.matchType,
+            assetUrl,
+            contentfulUrl: contentfulService.getContentfulUrl(
+              match.asset,
+              credentials.spaceId,
+              credentials.environmentId
+            )
+          }
+        })
+      } catch (error) {
+        // A file that can't be checked is uploaded as usual
+        console.warn(`Duplicate check failed for ${file.file.name}:`, error)
+      } finally {
+        concurrency.release()
+      }
+    }))
+
+    if (duplicateIds.size > 0) {
+      toast.warning(
+        `${duplicateIds.size} file${duplicateIds.size === 1 ? '' : 's'} already exist in Contentful. Choose skip, upload anyway or replace in the file list.`,
+        { id: toastId }
+      )
+    } else {
+      toast.dismiss(toastId)
+    }
+
+    return pendingFiles.filter(f => !duplicateIds.has(f.id))
+  }
+
+  const uploadFileWithConcurrency = async (
+    file: UploadFile,
+    concurrency: ConcurrencyController,
+    abortController: AbortController,
+    tagsByName: Map<string, Tag>
+  ) => {
+    await concurrency.acquire()
     
     const startTime = Date.now()
     
@@ -243,21 +587,87 @@ export function FileDropzone() {
         return
       }
 
-      updateFileStatus(file.id, { status: 'processing', progress: 0, startTime })
+      const scheduledFor = publishMode === 'schedule' ? scheduledPublishAt : undefined
+      updateFileStatus(file.id, {
+        status: 'processing',
+        progress: 0,
+        phase: 'uploading',
+        bytesSent: 0,
+        uploadSpeed: undefined,
+        estimatedTimeRemaining: undefined,
+        startTime,
+        publishMode,
+        scheduledFor
+      })
       
-      const result = await contentfulService.uploadFile(
-        file.file,
-        (progress) => {
-          // Check if cancelled during progress updates
-          if (abortController?.signal.aborted) {
-            updateFileStatus(file.id, { status: 'cancelled' })
-            return
-          }
-          updateFileStatus(file.id, { progress })
-        },
-        abortController?.signal,
-        tag
+      const tags = Array.from(new Set(
+        getFileTagNames(file).flatMap(name => tagsByName.get(name.toLowerCase()) ?? [])
+      ))
+      const { title, description } = resolveAssetText(
+        namingRules,
+        file,
+        files.findIndex(f => f.id === file.id) + 1
       )
+      const source = getFileToUpload(file)
+      // Fingerprinted assets can be found by later duplicate checks without downloading them
+      const contentHash = checkDuplicates ? await getContentHash(file, source) : undefined
+      let checkpoint = file.checkpoint
+
+      const result = await runWithRetries(async () => {
+        const attemptStartTime = Date.now()
+        return contentfulService.uploadFile(
+          source,
+          ({ phase, progress, bytesSent, totalBytes }) => {
+            // Check if cancelled during progress updates
+            if (abortController?.signal.aborted) {
+              updateFileStatus(file.id, { status: 'cancelled' })
+              return
+            }
+
+            const updates: Partial<UploadFile> = { progress, phase, nextRetryAt: undefined }
+            if (phase === 'uploading' && bytesSent !== undefined && totalBytes) {
+              const elapsed = Date.now() - attemptStartTime
+              updates.bytesSent = bytesSent
+              if (elapsed > 0 && bytesSent > 0) {
+                const uploadSpeed = (bytesSent / elapsed) * 1000 // bytes per second
+                updates.uploadSpeed = uploadSpeed
+                updates.estimatedTimeRemaining = ((totalBytes - bytesSent) / uploadSpeed) * 1000
+              }
+            } else if (phase !== 'uploading') {
+              updates.bytesSent = source.size
+              updates.estimatedTimeRemaining = 0
+            }
+            updateFileStatus(file.id, updates)
+          },
+          abortController?.signal,
+          tags,
+          {
+            locales: extraLocales,
+            fields: mergeLocaleFields(file),
+            title,
+            description,
+            // An optimised copy carries the type it was encoded as
+            contentType: source === file.file ? file.contentType : undefined,
+            replaceAssetId: file.targetAssetId,
+            publishMode,
+            scheduledFor,
+            resumeFrom: checkpoint,
+            fileId: file.id,
+            contentHash,
+            onCheckpoint: (next) => {
+              checkpoint = next
+              updateFileStatus(file.id, { checkpoint: next })
+            }
+          }
+        )
+      }, retryPolicy, {
+        signal: abortController.signal,
+        onRetry: (failed, attempt, delay) => updateFileStatus(file.id, {
+          retryCount: attempt,
+          lastError: failed.error,
+          nextRetryAt: Date.now() + delay
+        })
+      })
 
       // Check if cancelled after upload
       if (abortController?.signal.aborted) {
@@ -266,16 +676,22 @@ export function FileDropzone() {
       }
 
       const endTime = Date.now()
-      const duration = endTime - startTime
-      const uploadSpeed = file.file.size / duration // bytes per ms
 
       if (result.success && result.asset) {
+        let entryUpdates: Partial<UploadFile> = {}
+        // Replaced assets are usually linked already
+        if (entryLinking.enabled && !file.targetAssetId && !file.entryId) {
+          updateFileStatus(file.id, { phase: 'linking' })
+          entryUpdates = await createLinkedEntry(file, result.asset, { title, description }, abortController.signal)
+        }
+
         updateFileStatus(file.id, {
+          ...entryUpdates,
           status: 'completed',
           progress: 100,
-          endTime,
-          uploadSpeed: uploadSpeed * 1000, // convert to bytes per second
+          endTime: Date.now(),
           assetId: result.asset.sys.id,
+          scheduledActionId: result.scheduledActionId,
           assetUrl: contentfulService.getAssetUrl(result.asset),
           contentfulUrl: contentfulService.getContentfulUrl(
             result.asset, 
@@ -284,7 +700,14 @@ export function FileDropzone() {
           )
         })
         
-        toast.success(`Uploaded: ${file.file.name}`)
+        toast.success(file.targetAssetId ? `Replaced: ${file.file.name}` : `Uploaded: ${file.file.name}`)
+        if (result.fingerprintError) {
+          toast.warning(
+            `Uploads can't be fingerprinted (${result.fingerprintError}), so later duplicate checks only match name and size`,
+            { id: FINGERPRINT_TOAST_ID }
+          )
+        }
+        concurrency.recordSuccess()
 
         // Capture first estimate after first file completes
         const { getEstimatedCompletionTime, firstEstimate } = useAppStore.getState()
@@ -319,7 +742,7 @@ export function FileDropzone() {
         toast.error(`Failed: ${file.file.name}`)
       }
     } finally {
-      semaphore.release()
+      concurrency.release()
     }
   }
 
@@ -392,6 +815,75 @@ export function FileDropzone() {
         )}
       </div>
 
+      {/* Metadata Manifest */}
+      <div className="mt-4">
+        <input
+          ref={manifestInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) void importManifest(file)
+            e.target.value = ''
+          }}
+        />
+        {manifest && manifestReport ? (
+          <div className={`rounded-lg border p-3 text-sm ${isDarkMode ? 'border-gray-700 bg-gray-800 text-gray-300' : 'border-gray-200 bg-gray-50 text-gray-700'}`}>
+            <div className="flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4 shrink-0" />
+              <span className="font-medium truncate flex-1">{manifest.fileName}</span>
+              <span className="text-xs">
+                {manifestReport.matched} of {files.length} file{files.length === 1 ? '' : 's'} matched
+              </span>
+              <button
+                onClick={() => setManifest(undefined)}
+                disabled={isUploading}
+                className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                title="Remove manifest"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {manifestReport.unmatchedRows.length > 0 && (
+              <details className="mt-2">
+                <summary className={`flex items-center gap-1 cursor-pointer text-xs ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`}>
+                  <AlertTriangle className="w-3 h-3" />
+                  {manifestReport.unmatchedRows.length} row{manifestReport.unmatchedRows.length === 1 ? '' : 's'} without a queued file
+                </summary>
+                <ul className="mt-1 pl-4 text-xs max-h-32 overflow-y-auto">
+                  {manifestReport.unmatchedRows.map((entry, index) => <li key={`${entry.key}-${index}`} className="truncate">{entry.key}</li>)}
+                </ul>
+              </details>
+            )}
+            {manifestReport.unmatchedFiles.length > 0 && (
+              <details className="mt-2">
+                <summary className={`flex items-center gap-1 cursor-pointer text-xs ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`}>
+                  <AlertTriangle className="w-3 h-3" />
+                  {manifestReport.unmatchedFiles.length} file{manifestReport.unmatchedFiles.length === 1 ? '' : 's'} without a manifest row
+                </summary>
+                <ul className="mt-1 pl-4 text-xs max-h-32 overflow-y-auto">
+                  {manifestReport.unmatchedFiles.map(file => (
+                    <li key={file.id} className="truncate">
+                      {file.folderPath ? `${file.folderPath}/${file.file.name}` : file.file.name}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        ) : (
+          <button
+            onClick={() => manifestInputRef.current?.click()}
+            disabled={isUploading}
+            className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'} disabled:opacity-50`}
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Import metadata manifest (CSV or JSON)
+          </button>
+        )}
+      </div>
+
       {/* Tagging Controls */}
       <div className="mt-6 space-y-3">
         <div className="flex items-center space-x-2">
@@ -407,34 +899,47 @@ export function FileDropzone() {
             htmlFor="enableTagging" 
             className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
           >
-            Add tag to uploaded assets
+            Add tags to uploaded assets
           </label>
         </div>
         
         {enableTagging && (
           <div>
             <label 
-              htmlFor="tagName" 
+              htmlFor="tagNames" 
               className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
             >
-              Tag Name
+              Tags
             </label>
-            <input
-              type="text"
-              id="tagName"
-              value={tagName}
-              onChange={(e) => setTagName(e.target.value)}
-              placeholder="Enter tag name..."
+            <TagPicker
+              id="tagNames"
+              value={tagNames}
+              onChange={setTagNames}
               disabled={isUploading}
-              autoComplete="off"
-              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                isDarkMode 
-                  ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
-                  : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
-              }`}
+              placeholder="Pick existing tags or type a new one..."
             />
+            <div className="flex items-center gap-4 mt-2">
+              <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>New tags are</span>
+              {(['private', 'public'] as const).map(visibility => (
+                <label
+                  key={visibility}
+                  className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                >
+                  <input
+                    type="radio"
+                    name="newTagVisibility"
+                    value={visibility}
+                    checked={newTagVisibility === visibility}
+                    onChange={() => setNewTagVisibility(visibility)}
+                    disabled={isUploading}
+                    className="border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-700"
+                  />
+                  {visibility === 'private' ? 'Private' : 'Public'}
+                </label>
+              ))}
+            </div>
             <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              A private tag will be created and applied to all uploaded assets
+              Applied to all uploaded assets alongside any per-file tags and tags the asset already has
             </p>
           </div>
         )}
@@ -442,10 +947,27 @@ export function FileDropzone() {
 
       {/* Upload Controls */}
       <div className="mt-6 space-y-3">
+        {isConfigured && (
+          <div
+            className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-sm ${
+              isUploading
+                ? isDarkMode ? 'border-blue-800 bg-blue-900/20 text-blue-200' : 'border-blue-200 bg-blue-50 text-blue-800'
+                : isDarkMode ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'
+            }`}
+          >
+            <Plug className="w-4 h-4 shrink-0" />
+            <span className="truncate">
+              {isUploading ? 'Uploading to ' : 'Target: '}
+              <span className="font-medium">
+                {describeProfile(activeConnectionProfile?.name ?? 'Default', credentials)}
+              </span>
+            </span>
+          </div>
+        )}
         <div className="flex gap-2">
           <button
             onClick={handleUpload}
-            disabled={isUploading || files.length === 0 || !isConfigured || (enableTagging && !tagName.trim())}
+            disabled={isUploading || files.length === 0 || !isConfigured || (enableTagging && tagNames.length === 0)}
             className="btn btn-primary flex-1 flex items-center justify-center gap-2"
           >
             {isConnecting ? (
@@ -471,33 +993,3 @@ export function FileDropzone() {
     </div>
   )
 }
-
-// Simple semaphore implementation for concurrency control
-class Semaphore {
-  private permits: number
-  private waiting: (() => void)[] = []
-
-  constructor(permits: number) {
-    this.permits = permits
-  }
-
-  async acquire(): Promise<void> {
-    if (this.permits > 0) {
-      this.permits--
-      return
-    }
-
-    return new Promise<void>((resolve) => {
-      this.waiting.push(resolve)
-    })
-  }
-
-  release(): void {
-    this.permits++
-    if (this.waiting.length > 0) {
-      const resolve = this.waiting.shift()!
-      this.permits--
-      resolve()
-    }
-  }
-}
@@ -1,5 +1,10 @@
-import { Trash2, ExternalLink, FileText, AlertCircle, Image, File, Music, Video, Archive, Clock } from 'lucide-react'
+import React from 'react'
+import { Trash2, ExternalLink, FileText, AlertCircle, Image, File, Music, Video, Archive, Clock, Replace, X, CalendarClock, RotateCcw, Tags, Folder, PenLine, Link2 } from 'lucide-react'
 import { useAppStore, type UploadFile } from "../store/useAppStore";
+import { TagPicker } from './TagPicker'
+import { ExportMenu } from './ExportMenu'
+import { resolveAssetText } from '../utils/naming'
+import { getFileToUpload } from '../utils/imageOptimizer'
 import clsx from 'clsx'
 import { toast } from 'sonner'
 
@@ -8,13 +13,51 @@ interface FileListProps {
 }
 
 export function FileList({ fillHeight = false }: FileListProps) {
-  const { files, removeFile, isUploading, clearFiles, isDarkMode, getEstimatedCompletionTime } = useAppStore()
+  const {
+    files,
+    removeFile,
+    isUploading,
+    clearFiles,
+    isDarkMode,
+    getEstimatedCompletionTime,
+    resolveDuplicate,
+    setTargetAsset,
+    retryFile,
+    retryMaxAttempts,
+    setFileTags,
+    setFileText,
+    setUseOriginal,
+    namingRules
+  } = useAppStore()
+  const [editingTargetId, setEditingTargetId] = React.useState<string | null>(null)
+  const [targetAssetInput, setTargetAssetInput] = React.useState('')
+  const [editingTagsId, setEditingTagsId] = React.useState<string | null>(null)
+  const [editingTextId, setEditingTextId] = React.useState<string | null>(null)
 
   const handleClearFiles = () => {
     clearFiles()
     toast.success('Files cleared')
   }
 
+  const startEditingTarget = (file: UploadFile) => {
+    setEditingTargetId(file.id)
+    setTargetAssetInput(file.targetAssetId ?? '')
+  }
+
+  const handleTargetSubmit = (e: React.FormEvent, id: string) => {
+    e.preventDefault()
+    setTargetAsset(id, targetAssetInput)
+    setEditingTargetId(null)
+  }
+
+  const getPublishModeText = (file: UploadFile) => {
+    if (file.publishMode === 'draft') return 'Left as draft'
+    if (file.publishMode === 'schedule' && file.scheduledFor) {
+      return `Publishes ${new Date(file.scheduledFor).toLocaleString()}`
+    }
+    return 'Published'
+  }
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 B'
     const k = 1024
@@ -30,34 +73,61 @@ export function FileList({ fillHeight = false }: FileListProps) {
       case 'completed': return 'status-completed'
       case 'failed': return 'status-failed'
       case 'cancelled': return 'status-cancelled'
+      case 'duplicate': return 'status-duplicate'
+      case 'skipped': return 'status-skipped'
+      case 'rejected': return 'status-rejected'
       default: return 'status-pending'
     }
   }
 
-  const getProcessingStageLabel = (progress: number) => {
-    if (progress >= 100) return 'Completed'
-    if (progress >= 75) return 'Publishing Asset'
-    if (progress >= 50) return 'Processing Asset'
-    if (progress >= 25) return 'Creating Asset'
-    return 'Pending'
+  const getProcessingStageLabel = (file: UploadFile) => {
+    switch (file.phase) {
+      case 'uploading': return file.targetAssetId ? 'Uploading Replacement' : 'Uploading File'
+      case 'processing': return 'Processing Asset'
+      case 'tagging': return 'Tagging Asset'
+      case 'publishing':
+        if (file.publishMode === 'draft') return 'Saving Draft'
+        if (file.publishMode === 'schedule') return 'Scheduling Publish'
+        return 'Publishing Asset'
+      case 'linking': return 'Creating Entry'
+      default: return 'Pending'
+    }
   }
 
   const getStatusText = (file: UploadFile) => {
+    if (file.status === 'processing' && file.nextRetryAt) {
+      return `Retrying at ${new Date(file.nextRetryAt).toLocaleTimeString()}`
+    }
     if (file.status === 'processing') {
-      const stage = getProcessingStageLabel(file.progress)
-      return `${stage} (${file.progress}%)`
+      return `${getProcessingStageLabel(file)} (${file.progress}%)`
     }
     if (file.status === 'failed') {
       return `Failed: ${file.error}`
     }
+    if (file.status === 'rejected') {
+      return `Rejected: ${file.error}`
+    }
     if (file.status === 'completed') {
-      return 'Completed'
+      return file.targetAssetId ? 'Replaced' : 'Completed'
+    }
+    if (file.status === 'duplicate') {
+      return file.duplicateOf?.matchType === 'fingerprint'
+        ? 'Duplicate (same content)'
+        : 'Duplicate (same name & size)'
     }
     return file.status.charAt(0).toUpperCase() + file.status.slice(1)
   }
 
-  const getFileIcon = (file: File) => {
-    const type = file.type.toLowerCase()
+  const formatRemaining = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000)
+    if (seconds < 60) return `${seconds}s`
+    const minutes = Math.floor(seconds / 60)
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  }
+
+  const getFileIcon = (file: UploadFile) => {
+    const type = (file.contentType ?? file.file.type).toLowerCase()
     if (type.startsWith('image/')) return <Image className="w-4 h-4 text-blue-500" />
     if (type.startsWith('video/')) return <Video className="w-4 h-4 text-purple-500" />
     if (type.startsWith('audio/')) return <Music className="w-4 h-4 text-green-500" />
@@ -68,14 +138,97 @@ export function FileList({ fillHeight = false }: FileListProps) {
   const getStatusPriority = (status: string) => {
     switch (status) {
       case 'processing': return 1
-      case 'pending': return 2
-      case 'failed': return 3
-      case 'cancelled': return 4
-      case 'completed': return 5
-      default: return 6
+      case 'duplicate': return 2
+      case 'pending': return 3
+      case 'failed': return 4
+      case 'cancelled': return 5
+      case 'skipped': return 6
+      case 'completed': return 7
+      case 'rejected': return 8
+      default: return 9
     }
   }
 
+  // {index} in naming templates follows the order files were added in
+  const queuePositions = new Map(files.map((file, index) => [file.id, index + 1]))
+
+  // Preview of the title and description the asset will get
+  const renderAssetText = (file: UploadFile) => {
+    const { title, description } = resolveAssetText(namingRules, file, queuePositions.get(file.id) ?? 1)
+    return (
+      <div
+        className={`mt-0.5 pl-6 text-xs truncate ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}
+        title={`Title: ${title}\nDescription: ${description}`}
+      >
+        {title}
+        {description !== title && (
+          <span className={isDarkMode ? 'text-gray-500' : 'text-gray-400'}> · {description}</span>
+        )}
+      </div>
+    )
+  }
+
+  // Per-file title, description and credit; empty fields fall back to the naming rules
+  const renderTextEditor = (file: UploadFile) => {
+    const generated = resolveAssetText(namingRules, { file: file.file, folderPath: file.folderPath }, queuePositions.get(file.id) ?? 1)
+    const labelClass = `w-20 shrink-0 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`
+    return (
+      <div className="mt-1 pl-6 space-y-1">
+        <div className="flex items-center gap-1">
+          <label htmlFor={`${file.id}-title`} className={labelClass}>Title</label>
+          <input
+            id={`${file.id}-title`}
+            autoComplete="off"
+            type="text"
+            value={file.title ?? ''}
+            onChange={(e) => setFileText(file.id, { title: e.target.value })}
+            placeholder={generated.title}
+            disabled={isUploading}
+            className="input py-0.5 text-xs"
+          />
+        </div>
+        <div className="flex items-start gap-1">
+          <label htmlFor={`${file.id}-description`} className={`${labelClass} mt-1`}>Description</label>
+          <textarea
+            id={`${file.id}-description`}
+            rows={2}
+            value={file.description ?? ''}
+            onChange={(e) => setFileText(file.id, { description: e.target.value })}
+            placeholder={generated.description}
+            disabled={isUploading}
+            className="input py-0.5 text-xs resize-y"
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <label htmlFor={`${file.id}-credit`} className={labelClass}>Credit</label>
+          <input
+            id={`${file.id}-credit`}
+            autoComplete="off"
+            type="text"
+            value={file.credit ?? ''}
+            onChange={(e) => setFileText(file.id, { credit: e.target.value })}
+            placeholder="Photographer · © Owner"
+            disabled={isUploading}
+            className="input py-0.5 text-xs"
+          />
+          <button
+            type="button"
+            onClick={() => setEditingTextId(null)}
+            className="text-gray-500 hover:text-gray-700"
+            title="Done"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        {file.embeddedMetadata && (
+          <p className={`text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+            Pre-filled from the image's embedded metadata
+          </p>
+        )}
+      </div>
+    )
+  }
+
   const sortedFiles = [...files].sort((a, b) => {
     // First sort by status priority
     const statusDiff = getStatusPriority(a.status) - getStatusPriority(b.status)
@@ -100,14 +253,17 @@ export function FileList({ fillHeight = false }: FileListProps) {
           )}
         </div>
         {files.length > 0 && (
-          <button
-            onClick={handleClearFiles}
-            disabled={isUploading}
-            className="btn btn-secondary flex items-center gap-2"
-          >
-            <Trash2 className="w-4 h-4" />
-            Clear All Files
-          </button>
+          <div className="flex items-center gap-2">
+            <ExportMenu />
+            <button
+              onClick={handleClearFiles}
+              disabled={isUploading}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear All Files
+            </button>
+          </div>
         )}
       </div>
 
@@ -137,7 +293,7 @@ export function FileList({ fillHeight = false }: FileListProps) {
                   }`}>
                     <td className="py-2.5 px-2 w-2/5 max-w-0">
                       <div className="flex items-center gap-2 min-w-0">
-                        {getFileIcon(file.file)}
+                        {getFileIcon(file)}
                         <span 
                           className={`text-sm font-medium truncate flex-1 min-w-0 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}
                           title={file.file.name}
@@ -145,12 +301,129 @@ export function FileList({ fillHeight = false }: FileListProps) {
                           {file.file.name}
                         </span>
                       </div>
+                      {file.folderPath && (
+                        <div className={`flex items-center gap-1 mt-0.5 pl-6 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          <Folder className="w-3 h-3 shrink-0" />
+                          <span className="truncate">{file.folderPath}</span>
+                        </div>
+                      )}
+                      {renderAssetText(file)}
+                      {editingTargetId === file.id ? (
+                        <form onSubmit={(e) => handleTargetSubmit(e, file.id)} className="flex items-center gap-1 mt-1 pl-6">
+                          <input
+                            autoFocus
+                            autoComplete="off"
+                            type="text"
+                            value={targetAssetInput}
+                            onChange={(e) => setTargetAssetInput(e.target.value)}
+                            placeholder="Asset ID to replace"
+                            className="input py-0.5 text-xs"
+                          />
+                          <button type="submit" className="px-2 py-0.5 rounded text-xs btn-secondary">
+                            Set
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditingTargetId(null)}
+                            className="text-gray-500 hover:text-gray-700"
+                            title="Cancel"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </form>
+                      ) : file.targetAssetId && (
+                        <div className={`flex items-center gap-1 mt-1 pl-6 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          <span className="truncate" title={file.targetAssetId}>Replaces asset {file.targetAssetId}</span>
+                          {file.status === 'pending' && !isUploading && (
+                            <button
+                              onClick={() => setTargetAsset(file.id, undefined)}
+                              className="hover:text-red-600"
+                              title="Upload as a new asset instead"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {editingTagsId === file.id ? (
+                        <div className="flex items-start gap-1 mt-1 pl-6">
+                          <div className="flex-1 min-w-0">
+                            <TagPicker
+                              value={file.tags ?? []}
+                              onChange={(tags) => setFileTags(file.id, tags)}
+                              disabled={isUploading}
+                              compact
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setEditingTagsId(null)}
+                            className="mt-1 text-gray-500 hover:text-gray-700"
+                            title="Done"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ) : file.tags && file.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1 pl-6">
+                          {file.tags.map(tag => (
+                            <span
+                              key={tag}
+                              className={`px-1.5 py-0.5 rounded-full text-xs ${isDarkMode ? 'bg-blue-900/40 text-blue-200' : 'bg-blue-100 text-blue-800'}`}
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {editingTextId === file.id && renderTextEditor(file)}
                     </td>
                     <td className={`py-2.5 px-2 w-20 text-sm text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
                       {formatBytes(file.file.size)}
+                      {file.optimization === 'running' && (
+                        <div className={`text-xs whitespace-nowrap ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Optimising…</div>
+                      )}
+                      {file.optimization === 'failed' && (
+                        <div className={`text-xs whitespace-nowrap ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`} title={file.optimizationError}>
+                          Not optimised
+                        </div>
+                      )}
+                      {file.optimizedFile && (
+                        <div className="text-xs whitespace-nowrap">
+                          <span
+                            className={file.useOriginal ? 'line-through opacity-60' : isDarkMode ? 'text-green-400' : 'text-green-700'}
+                            title={`${file.optimizedFile.name} (${file.optimizedFile.type})`}
+                          >
+                            → {formatBytes(file.optimizedFile.size)}
+                          </span>
+                          {(file.status === 'pending' || file.status === 'failed' || file.status === 'cancelled') && (
+                            <button
+                              onClick={() => setUseOriginal(file.id, !file.useOriginal)}
+                              disabled={isUploading}
+                              className={`block ml-auto underline disabled:opacity-50 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+                            >
+                              {file.useOriginal ? 'Use optimised' : 'Use original'}
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </td>
                     <td className={`py-2.5 px-2 w-10 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                      {file.file.type || 'Unknown'}
+                      {file.contentType ?? (file.file.type || 'Unknown')}
+                      {file.typeMismatch && (
+                        <div
+                          className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`}
+                          title={`The browser reported ${file.file.type}, but the file contents are ${file.contentType}`}
+                        >
+                          <AlertCircle className="w-3 h-3 shrink-0" />
+                          <span className="line-through truncate">{file.file.type}</span>
+                        </div>
+                      )}
+                      {!file.typeMismatch && file.contentType && !file.file.type && (
+                        <div className={`text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`} title="The browser reported no type; detected from the file contents">
+                          detected
+                        </div>
+                      )}
                     </td>
                   <td className="py-2.5 px-2 w-40">
                       <span className={clsx('px-2 py-1 rounded-full text-xs font-medium', getStatusClass(file.status))}>
@@ -164,6 +437,52 @@ export function FileList({ fillHeight = false }: FileListProps) {
                           />
                         </div>
                       )}
+                      {file.status === 'processing' && file.phase === 'uploading' && file.uploadSpeed !== undefined && (
+                        <div className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {formatBytes(file.bytesSent ?? 0)} of {formatBytes(getFileToUpload(file).size)} · {formatBytes(file.uploadSpeed)}/s
+                          {file.estimatedTimeRemaining !== undefined && ` · ${formatRemaining(file.estimatedTimeRemaining)} left`}
+                        </div>
+                      )}
+                      {file.retryCount !== undefined && file.retryCount > 0 && (
+                        <div
+                          className={`text-xs mt-1 truncate ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`}
+                          title={file.lastError}
+                        >
+                          Retry {file.retryCount} of {retryMaxAttempts - 1}
+                          {file.lastError && ` · ${file.lastError}`}
+                        </div>
+                      )}
+                      {file.status === 'completed' && file.publishMode && (
+                        <div className={`flex items-center gap-1 mt-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {file.publishMode === 'schedule' && <CalendarClock className="w-3 h-3" />}
+                          <span>{getPublishModeText(file)}</span>
+                        </div>
+                      )}
+                      {file.status === 'duplicate' && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          <button
+                            onClick={() => resolveDuplicate(file.id, 'skip')}
+                            disabled={isUploading}
+                            className="px-2 py-0.5 rounded text-xs btn-secondary disabled:opacity-50"
+                          >
+                            Skip
+                          </button>
+                          <button
+                            onClick={() => resolveDuplicate(file.id, 'upload')}
+                            disabled={isUploading}
+                            className="px-2 py-0.5 rounded text-xs btn-secondary disabled:opacity-50"
+                          >
+                            Upload anyway
+                          </button>
+                          <button
+                            onClick={() => resolveDuplicate(file.id, 'replace')}
+                            disabled={isUploading}
+                            className="px-2 py-0.5 rounded text-xs btn-secondary disabled:opacity-50"
+                          >
+                            Replace
+                          </button>
+                        </div>
+                      )}
                     </td>
                     <td className="py-2.5 px-2 w-16 text-center">
                       <div className="flex items-center justify-center gap-2">
@@ -189,11 +508,78 @@ export function FileList({ fillHeight = false }: FileListProps) {
                             <FileText className="w-4 h-4" />
                           </a>
                         )}
+                        {file.status === 'completed' && file.entryUrl && (
+                          <a
+                            href={file.entryUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800"
+                            title={`View linked entry ${file.entryId}`}
+                          >
+                            <Link2 className="w-4 h-4" />
+                          </a>
+                        )}
+                        {file.status === 'completed' && file.entryError && (
+                          <div className="text-yellow-600" title={`Entry not created: ${file.entryError}`}>
+                            <AlertCircle className="w-4 h-4" />
+                          </div>
+                        )}
+                        {file.status === 'duplicate' && file.duplicateOf && (
+                          <a
+                            href={file.duplicateOf.contentfulUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-orange-600 hover:text-orange-800"
+                            title="View existing asset in Contentful"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </a>
+                        )}
                         {file.status === 'failed' && (
                           <div className="text-red-600" title={file.error}>
                             <AlertCircle className="w-4 h-4" />
                           </div>
                         )}
+                        {(file.status === 'failed' || file.status === 'cancelled') && (
+                          <button
+                            onClick={() => retryFile(file.id)}
+                            disabled={isUploading}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title={file.checkpoint?.uploadId ? 'Retry (resumes from the last confirmed step)' : 'Retry'}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        {file.status === 'pending' && (
+                          <button
+                            onClick={() => startEditingTarget(file)}
+                            disabled={isUploading}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title="Replace the file of an existing asset"
+                          >
+                            <Replace className="w-4 h-4" />
+                          </button>
+                        )}
+                        {file.status !== 'completed' && file.status !== 'processing' && (
+                          <button
+                            onClick={() => setEditingTextId(editingTextId === file.id ? null : file.id)}
+                            disabled={isUploading}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title="Edit title, description and credit"
+                          >
+                            <PenLine className="w-4 h-4" />
+                          </button>
+                        )}
+                        {file.status !== 'completed' && file.status !== 'processing' && (
+                          <button
+                            onClick={() => setEditingTagsId(editingTagsId === file.id ? null : file.id)}
+                            disabled={isUploading}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            title="Tags for this file"
+                          >
+                            <Tags className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => removeFile(file.id)}
                           disabled={isUploading && file.status === 'processing'}
@@ -0,0 +1,337 @@
+import React from 'react'
+import { ArrowDown, ArrowUp, ExternalLink, GalleryHorizontal, Loader2, RefreshCw } from 'lucide-react'
+import { useAppStore, type UploadFile } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+import { isAssetArrayField } from '../utils/entryLinking'
+import { toast } from 'sonner'
+
+type GalleryMode = 'create' | 'append'
+
+export function GalleryEntryBuilder() {
+  const {
+    files,
+    credentials,
+    isDarkMode,
+    isUploading,
+    galleryEntry,
+    setGalleryEntry,
+    contentTypes,
+    setContentTypes,
+    tokensLocked
+  } = useAppStore()
+  const [isOpen, setIsOpen] = React.useState(false)
+  const [mode, setMode] = React.useState<GalleryMode>('create')
+  const [order, setOrder] = React.useState<string[]>([])
+  const [title, setTitle] = React.useState('')
+  const [entryId, setEntryId] = React.useState('')
+  const [isLoadingContentTypes, setIsLoadingContentTypes] = React.useState(false)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [savedEntry, setSavedEntry] = React.useState<{ id: string; url: string } | null>(null)
+
+  const completedFiles = files.filter(f => f.status === 'completed' && f.assetId)
+  if (completedFiles.length === 0) return null
+
+  // Files completed after the list was reordered join at the end
+  const orderedFiles = [
+    ...order.flatMap(id => completedFiles.find(f => f.id === id) ?? []),
+    ...completedFiles.filter(f => !order.includes(f.id))
+  ]
+
+  const selectedContentType = contentTypes.find(ct => ct.id === galleryEntry.contentTypeId)
+  const galleryFields = selectedContentType?.fields.filter(isAssetArrayField) ?? []
+  const titleFields = selectedContentType?.fields.filter(field => field.type === 'Symbol') ?? []
+
+  const hasCredentials = credentials.spaceId && credentials.environmentId && credentials.token
+
+  // A locked vault leaves the token blank, which would only surface as a confusing connect failure.
+  // An existing connection for the same credentials is reused rather than rebuilt on every save.
+  const connect = async (action: string) => {
+    if (tokensLocked) {
+      toast.error(`Unlock your management tokens before you ${action}`)
+      return false
+    }
+    if (!hasCredentials) {
+      toast.error(`Enter your Contentful credentials in Settings before you ${action}`)
+      return false
+    }
+    if (contentfulService.isConnectedTo(credentials)) return true
+    const connection = await contentfulService.connect(credentials)
+    if (!connection.success) {
+      toast.error(`Could not connect: ${connection.error}`)
+      return false
+    }
+    return true
+  }
+
+  const loadContentTypes = async () => {
+    setIsLoadingContentTypes(true)
+    try {
+      if (!(await connect('load content types'))) return
+      const result = await contentfulService.getContentTypes()
+      if (result.success && result.contentTypes) {
+        setContentTypes(result.contentTypes)
+      } else {
+        toast.error(`Could not load content types: ${result.error}`)
+      }
+    } finally {
+      setIsLoadingContentTypes(false)
+    }
+  }
+
+  const handleToggle = () => {
+    if (!isOpen && contentTypes.length === 0) {
+      void loadContentTypes()
+    }
+    setIsOpen(!isOpen)
+  }
+
+  const handleContentTypeChange = (contentTypeId: string) => {
+    const contentType = contentTypes.find(ct => ct.id === contentTypeId)
+    setGalleryEntry({
+      contentTypeId,
+      fieldId: contentType?.fields.find(isAssetArrayField)?.id ?? '',
+      titleFieldId: contentType?.fields.find(field => field.type === 'Symbol')?.id ?? ''
+    })
+  }
+
+  const moveFile = (index: number, offset: number) => {
+    const ids = orderedFiles.map(f => f.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+    setOrder(ids)
+  }
+
+  const handleSave = async () => {
+    if (!galleryEntry.fieldId) {
+      toast.error('Pick a field that holds a list of assets')
+      return
+    }
+    if (mode === 'append' && !entryId.trim()) {
+      toast.error('Enter the ID of the entry to append to')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      if (!(await connect('save the gallery entry'))) return
+
+      // A replaced asset can appear more than once in a session
+      const assetIds = Array.from(new Set(orderedFiles.map(f => f.assetId!)))
+      const result = await contentfulService.saveGalleryEntry(assetIds, galleryEntry, {
+        entryId: mode === 'append' ? entryId.trim() : undefined,
+        title: title.trim() || undefined
+      })
+      if (!result.success || !result.entry) {
+        toast.error(`Gallery entry failed: ${result.error}`)
+        return
+      }
+
+      const id = result.entry.sys.id
+      setSavedEntry({ id, url: contentfulService.getEntryUrl(id, credentials.spaceId, credentials.environmentId) })
+      toast.success(
+        mode === 'append'
+          ? `Added ${result.added} asset${result.added === 1 ? '' : 's'} to entry ${id}`
+          : `Created gallery entry with ${assetIds.length} asset${assetIds.length === 1 ? '' : 's'}`
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500'
+
+  const renderFileRow = (file: UploadFile, index: number) => (
+    <li key={file.id} className="flex items-center gap-2 text-sm">
+      <span className={`w-6 text-right text-xs ${mutedText}`}>{index + 1}</span>
+      <span className="flex-1 truncate" title={file.folderPath ? `${file.folderPath}/${file.file.name}` : file.file.name}>
+        {file.file.name}
+      </span>
+      <button
+        type="button"
+        onClick={() => moveFile(index, -1)}
+        disabled={index === 0}
+        className={`p-0.5 disabled:opacity-30 ${isDarkMode ? 'hover:text-gray-200' : 'hover:text-gray-900'}`}
+        title="Move up"
+      >
+        <ArrowUp className="w-3 h-3" />
+      </button>
+      <button
+        type="button"
+        onClick={() => moveFile(index, 1)}
+        disabled={index === orderedFiles.length - 1}
+        className={`p-0.5 disabled:opacity-30 ${isDarkMode ? 'hover:text-gray-200' : 'hover:text-gray-900'}`}
+        title="Move down"
+      >
+        <ArrowDown className="w-3 h-3" />
+      </button>
+    </li>
+  )
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isUploading}
+        className={`flex items-center gap-2 text-sm font-medium disabled:opacity-50 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+      >
+        <GalleryHorizontal className="w-4 h-4" />
+        Gallery entry for {completedFiles.length} uploaded asset{completedFiles.length === 1 ? '' : 's'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="galleryMode" checked={mode === 'create'} onChange={() => setMode('create')} />
+              Create a new entry
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="galleryMode" checked={mode === 'append'} onChange={() => setMode('append')} />
+              Append to an existing entry
+            </label>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div>
+              <label htmlFor="galleryContentType" className="block text-xs font-medium mb-1">Content type</label>
+              <div className="flex items-center gap-2">
+                <select
+                  id="galleryContentType"
+                  value={galleryEntry.contentTypeId}
+                  onChange={(e) => handleContentTypeChange(e.target.value)}
+                  className="input text-sm"
+                  disabled={contentTypes.length === 0}
+                >
+                  {!selectedContentType && (
+                    <option value={galleryEntry.contentTypeId}>
+                      {galleryEntry.contentTypeId || (isLoadingContentTypes ? 'Loading…' : 'Pick a content type')}
+                    </option>
+                  )}
+                  {contentTypes.map(ct => (
+                    <option key={ct.id} value={ct.id}>{ct.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => void loadContentTypes()}
+                  disabled={isLoadingContentTypes}
+                  className={`p-1 ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+                  title="Reload content types from Contentful"
+                >
+                  {isLoadingContentTypes ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="galleryField" className="block text-xs font-medium mb-1">Assets field</label>
+              <select
+                id="galleryField"
+                value={galleryEntry.fieldId}
+                onChange={(e) => setGalleryEntry({ fieldId: e.target.value })}
+                className="input text-sm"
+                disabled={!selectedContentType}
+              >
+                {!selectedContentType && galleryEntry.fieldId && (
+                  <option value={galleryEntry.fieldId}>{galleryEntry.fieldId}</option>
+                )}
+                {selectedContentType && galleryFields.length === 0 && (
+                  <option value="">No fields hold a list of assets</option>
+                )}
+                {galleryFields.map(field => (
+                  <option key={field.id} value={field.id}>{field.name}</option>
+                ))}
+              </select>
+            </div>
+            {mode === 'create' ? (
+              <>
+                <div>
+                  <label htmlFor="galleryTitleField" className="block text-xs font-medium mb-1">Title field</label>
+                  <select
+                    id="galleryTitleField"
+                    value={galleryEntry.titleFieldId}
+                    onChange={(e) => setGalleryEntry({ titleFieldId: e.target.value })}
+                    className="input text-sm"
+                    disabled={!selectedContentType}
+                  >
+                    <option value="">None</option>
+                    {titleFields.map(field => (
+                      <option key={field.id} value={field.id}>{field.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="galleryTitle" className="block text-xs font-medium mb-1">Title</label>
+                  <input
+                    id="galleryTitle"
+                    type="text"
+                    autoComplete="off"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Spring campaign"
+                    className="input text-sm"
+                    disabled={!galleryEntry.titleFieldId}
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label htmlFor="galleryEntryId" className="block text-xs font-medium mb-1">Entry ID</label>
+                <input
+                  id="galleryEntryId"
+                  type="text"
+                  autoComplete="off"
+                  value={entryId}
+                  onChange={(e) => setEntryId(e.target.value)}
+                  placeholder="Existing entry to append to"
+                  className="input text-sm"
+                />
+              </div>
+            )}
+          </div>
+          <p className={`text-xs ${mutedText}`}>
+            {mode === 'append'
+              ? 'New assets are added after the ones the entry already links; assets it already links are skipped.'
+              : 'The entry links the assets in the order below.'}
+          </p>
+
+          <ol className={`max-h-48 overflow-y-auto space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            {orderedFiles.map(renderFileRow)}
+          </ol>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={galleryEntry.publish}
+                onChange={(e) => setGalleryEntry({ publish: e.target.checked })}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+              />
+              Publish entry
+            </label>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={isSaving || !galleryEntry.fieldId || tokensLocked}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === 'append' ? 'Append to Entry' : 'Create Entry'}
+            </button>
+            {savedEntry && (
+              <a
+                href={savedEntry.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <ExternalLink className="w-4 h-4" />
+                View entry {savedEntry.id}
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { Plug } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { describeProfile } from '../utils/connectionProfiles'
+import { toast } from 'sonner'
+
+export function ProfileSwitcher() {
+  const { connectionProfiles, activeConnectionProfileId, switchConnectionProfile, credentials, isUploading } = useAppStore()
+
+  const handleChange = (id: string) => {
+    switchConnectionProfile(id)
+    const profile = connectionProfiles.find(p => p.id === id)
+    if (profile) {
+      toast.success(`Switched to ${profile.name}`)
+    }
+  }
+
+  // The active profile's saved credentials may lag behind the live ones
+  const getTitle = (id: string) => {
+    const profile = connectionProfiles.find(p => p.id === id)
+    if (!profile) return ''
+    return describeProfile(profile.name, id === activeConnectionProfileId ? credentials : profile.credentials)
+  }
+
+  return (
+    <label
+      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+      title={isUploading ? 'The profile cannot be changed during an upload' : getTitle(activeConnectionProfileId)}
+    >
+      <Plug className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+      <span className="sr-only">Connection profile</span>
+      <select
+        value={activeConnectionProfileId}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={isUploading}
+        className="bg-transparent text-sm font-medium text-gray-700 dark:text-gray-200 focus:outline-none disabled:opacity-60"
+      >
+        {connectionProfiles.map(profile => (
+          <option key={profile.id} value={profile.id} title={getTitle(profile.id)}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,250 @@
+import React from 'react'
+import { Loader2, RotateCcw, X } from 'lucide-react'
+import { useAppStore, type UploadFile } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+import { clearSavedQueue, loadSavedQueue, saveQueueChanges, type SavedQueue } from '../utils/queuePersistence'
+import { getFileToUpload } from '../utils/imageOptimizer'
+import { toast } from 'sonner'
+
+// Progress updates arrive many times a second; the saved queue only needs to keep up roughly
+const SAVE_DELAY_MS = 750
+
+// Checkpoints name uploads and assets that already exist in Contentful. Losing one to the delay
+// would make a resumed file start over and create a second asset, so they are saved right away.
+const hasNewCheckpoint = (files: UploadFile[], previous: UploadFile[]) => {
+  const previousCheckpoints = new Map(previous.map(file => [file.id, file.checkpoint]))
+  return files.some(file => file.checkpoint !== undefined && file.checkpoint !== previousCheckpoints.get(file.id))
+}
+
+const requeue = (file: UploadFile, checkpoint = file.checkpoint): UploadFile => ({
+  ...file,
+  status: 'pending',
+  progress: 0,
+  phase: undefined,
+  bytesSent: undefined,
+  checkpoint
+})
+
+export function ResumeQueuePrompt() {
+  const { credentials, entryLinking, restoreFiles, isDarkMode } = useAppStore()
+  const [savedQueue, setSavedQueue] = React.useState<SavedQueue | null>(null)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [isResuming, setIsResuming] = React.useState(false)
+  // Files as they were last written, so only changes are saved
+  const lastSaved = React.useRef<UploadFile[]>([])
+
+  // Saving starts once any interrupted queue has been resumed or discarded, so it isn't overwritten first
+  React.useEffect(() => {
+    let cancelled = false
+    loadSavedQueue()
+      .then(queue => {
+        if (cancelled) return
+        if (queue) {
+          setSavedQueue(queue)
+        } else {
+          setIsSaving(true)
+        }
+      })
+      .catch(error => {
+        console.warn('Could not load the saved upload queue:', error)
+        if (!cancelled) setIsSaving(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!isSaving) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let writes = Promise.resolve()
+    let warned = false
+
+    const save = () => {
+      timer = undefined
+      const { files, credentials } = useAppStore.getState()
+      const previous = lastSaved.current
+      lastSaved.current = files
+      // Writes are chained so they land in order
+      writes = writes
+        .then(() => saveQueueChanges(previous, files, credentials))
+        .catch(error => {
+          console.warn('Could not save the upload queue:', error)
+          if (!warned) {
+            warned = true
+            toast.warning('The upload queue could not be saved for resuming. The browser may be out of storage space.')
+          }
+        })
+    }
+
+    const flush = () => {
+      if (timer === undefined) return
+      clearTimeout(timer)
+      save()
+    }
+
+    save()
+    const unsubscribe = useAppStore.subscribe((state, prev) => {
+      if (state.files === prev.files) return
+      if (hasNewCheckpoint(state.files, prev.files)) {
+        if (timer !== undefined) clearTimeout(timer)
+        save()
+      } else if (timer === undefined) {
+        timer = setTimeout(save, SAVE_DELAY_MS)
+      }
+    })
+    // Last chance to write pending changes when the tab is closed or reloaded
+    window.addEventListener('pagehide', flush)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('pagehide', flush)
+      flush()
+    }
+  }, [isSaving])
+
+  // Without a recorded asset the file may still have created one just before the interruption.
+  // A match by fingerprint or name and size is left for the user to skip, upload or replace.
+  const findUnrecordedAsset = async (file: UploadFile): Promise<UploadFile> => {
+    // The user already chose what to do about existing assets
+    if (file.duplicateAction || file.targetAssetId) return requeue(file)
+
+    const result = await contentfulService.findDuplicateAssets(getFileToUpload(file), file.contentHash)
+    const match = result.duplicates[0]
+    if (!match) return requeue(file)
+
+    let assetUrl: string | undefined
+    try {
+      assetUrl = contentfulService.getAssetUrl(match.asset)
+    } catch {
+      assetUrl = undefined
+    }
+    return {
+      ...requeue(file),
+      status: 'duplicate',
+      duplicateOf: {
+        assetId: match.asset.sys.id,
+        matchType: match.matchType,
+        assetUrl,
+        contentfulUrl: contentfulService.getContentfulUrl(match.asset, credentials.spaceId, credentials.environmentId)
+      }
+    }
+  }
+
+  // Files that were mid-upload are looked up by the asset they had created, if any
+  const checkInterruptedFile = async (file: UploadFile): Promise<UploadFile> => {
+    const assetId = file.checkpoint?.assetId
+    if (!assetId) return findUnrecordedAsset(file)
+
+    const result = await contentfulService.checkAssetExists(assetId)
+    if (!result.success) return requeue(file)
+    if (!result.exists || !result.asset) return requeue(file, { ...file.checkpoint, assetId: undefined })
+
+    const asset = result.asset
+    const needsEntry = entryLinking.enabled && !file.targetAssetId && !file.entryId
+    if (file.publishMode !== 'publish' || !asset.isPublished() || needsEntry) {
+      // Finishing from the checkpoint reuses the asset rather than creating another
+      return requeue(file)
+    }
+
+    return {
+      ...file,
+      status: 'completed',
+      progress: 100,
+      phase: undefined,
+      endTime: file.endTime ?? Date.now(),
+      assetId: asset.sys.id,
+      assetUrl: contentfulService.getAssetUrl(asset),
+      contentfulUrl: contentfulService.getContentfulUrl(asset, credentials.spaceId, credentials.environmentId)
+    }
+  }
+
+  const handleResume = async () => {
+    if (!savedQueue) return
+
+    setIsResuming(true)
+    try {
+      const interrupted = savedQueue.files.filter(f => f.status === 'processing')
+      const checked = new Map<string, UploadFile>()
+      if (interrupted.length > 0) {
+        const connection = await contentfulService.connect(credentials)
+        if (!connection.success) {
+          toast.error(`Could not check the interrupted uploads: ${connection.error}`)
+          return
+        }
+        for (const file of interrupted) {
+          checked.set(file.id, await checkInterruptedFile(file))
+        }
+      }
+
+      restoreFiles(savedQueue.files.map(f => checked.get(f.id) ?? f))
+      lastSaved.current = savedQueue.files
+      setSavedQueue(null)
+      setIsSaving(true)
+
+      const requeued = Array.from(checked.values()).filter(f => f.status === 'pending').length
+      const matched = Array.from(checked.values()).filter(f => f.status === 'duplicate').length
+      toast.success(
+        `Restored ${savedQueue.files.length} files` +
+          (requeued > 0 ? `, ${requeued} interrupted upload${requeued === 1 ? '' : 's'} queued again` : '') +
+          (matched > 0 ? `, ${matched} may already exist in Contentful` : '')
+      )
+    } catch (error) {
+      toast.error(`Could not resume the queue: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsResuming(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    try {
+      await clearSavedQueue()
+    } catch (error) {
+      console.warn('Could not clear the saved upload queue:', error)
+    }
+    setSavedQueue(null)
+    setIsSaving(true)
+  }
+
+  if (!savedQueue) {
+    return null
+  }
+
+  const completed = savedQueue.files.filter(f => f.status === 'completed').length
+  const remaining = savedQueue.files.filter(f => f.status === 'pending' || f.status === 'processing').length
+  const otherTarget =
+    savedQueue.spaceId !== credentials.spaceId || savedQueue.environmentId !== credentials.environmentId
+
+  return (
+    <div className={`shrink-0 flex flex-wrap items-center gap-3 rounded-lg border px-4 py-3 ${
+      isDarkMode ? 'bg-blue-900/20 border-blue-800 text-blue-200' : 'bg-blue-50 border-blue-200 text-blue-800'
+    }`}>
+      <RotateCcw className="w-5 h-5 shrink-0" />
+      <div className="flex-1 min-w-0 text-sm">
+        <p className="font-medium">An earlier upload queue was interrupted</p>
+        <p className={isDarkMode ? 'text-blue-300' : 'text-blue-700'}>
+          {savedQueue.files.length} files for {savedQueue.spaceId}/{savedQueue.environmentId}: {completed} completed, {remaining} unfinished.
+          {otherTarget && ' Switch to that space and environment to resume it.'}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => void handleResume()}
+        disabled={isResuming || otherTarget}
+        className="btn btn-primary flex items-center gap-2"
+      >
+        {isResuming ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+        Resume
+      </button>
+      <button
+        type="button"
+        onClick={() => void handleDiscard()}
+        disabled={isResuming}
+        className="btn btn-secondary flex items-center gap-2"
+      >
+        <X className="w-4 h-4" />
+        Discard
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import React from 'react'
+import { ChevronDown, ChevronRight, ExternalLink, History, Loader2, Search, Trash2, X } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { ExportMenu } from './ExportMenu'
+import {
+  clearSessions,
+  deleteSession,
+  deleteSessionsBefore,
+  listSessions,
+  matchesFileQuery,
+  matchesSessionQuery,
+  type SessionRecord
+} from '../utils/sessionHistory'
+import { toast } from 'sonner'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface SessionHistoryProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function SessionHistory({ isOpen, onClose }: SessionHistoryProps) {
+  const { isDarkMode } = useAppStore()
+  const [sessions, setSessions] = React.useState<SessionRecord[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [query, setQuery] = React.useState('')
+  const [expandedId, setExpandedId] = React.useState<string | null>(null)
+  const [retentionDays, setRetentionDays] = React.useState(30)
+
+  const loadSessions = React.useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setSessions(await listSessions())
+    } catch (error) {
+      toast.error(`Could not load the session history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (isOpen) {
+      void loadSessions()
+    }
+  }, [isOpen, loadSessions])
+
+  React.useEffect(() => {
+    if (!isOpen) return
+
+    const handler = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [isOpen, onClose])
+
+  if (!isOpen) {
+    return null
+  }
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id)
+    setSessions(sessions.filter(session => session.id !== id))
+  }
+
+  const handleDeleteOld = async () => {
+    const removed = await deleteSessionsBefore(Date.now() - retentionDays * DAY_MS)
+    toast.success(`Removed ${removed} session${removed === 1 ? '' : 's'} older than ${retentionDays} days`)
+    await loadSessions()
+  }
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete the whole session history?')) return
+    await clearSessions()
+    setSessions([])
+  }
+
+  const handleOverlayClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.target === event.currentTarget) {
+      onClose()
+    }
+  }
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500'
+  const visibleSessions = sessions.filter(session => matchesSessionQuery(session, query))
+
+  const renderSession = (session: SessionRecord) => {
+    const isExpanded = expandedId === session.id
+    const completed = session.files.filter(f => f.status === 'completed').length
+    const failed = session.files.filter(f => f.status === 'failed').length
+    // While searching, only the matching files are listed, unless the session matched as a whole
+    const matchingFiles = session.files.filter(f => matchesFileQuery(f, query))
+    const files = matchingFiles.length > 0 ? matchingFiles : session.files
+
+    return (
+      <li key={session.id} className={`rounded-xl border ${isDarkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-50'}`}>
+        <div className="flex items-center gap-3 p-3">
+          <button
+            type="button"
+            onClick={() => setExpandedId(isExpanded ? null : session.id)}
+            className="flex flex-1 min-w-0 items-center gap-2 text-left"
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+            <div className="min-w-0">
+              <div className="text-sm font-medium">
+                {new Date(session.startedAt).toLocaleString()}
+                {session.endedAt && (
+                  <span className={`font-normal ${mutedText}`}> · {Math.max(1, Math.round((session.endedAt - session.startedAt) / 1000))}s</span>
+                )}
+              </div>
+              <div className={`text-xs truncate ${mutedText}`}>
+                {session.profileName && `${session.profileName} · `}
+                {session.spaceId}/{session.environmentId} · {session.files.length} files · {completed} completed
+                {failed > 0 && ` · ${failed} failed`}
+                {session.tags.length > 0 && ` · tags: ${session.tags.join(', ')}`}
+              </div>
+            </div>
+          </button>
+          <ExportMenu records={session.files} date={new Date(session.startedAt)} />
+          <button
+            type="button"
+            onClick={() => void handleDelete(session.id)}
+            className="text-red-600 hover:text-red-800"
+            title="Delete session"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+        {isExpanded && (
+          <ul className={`border-t px-3 py-2 space-y-1 max-h-64 overflow-y-auto ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            {files.map((file, index) => (
+              <li key={`${file.path}-${index}`} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 truncate" title={file.error ?? file.path}>{file.path}</span>
+                <span className={`status-${file.status}`}>{file.status}</span>
+                {file.contentfulUrl ? (
+                  <a
+                    href={file.contentfulUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800"
+                    title={`View asset ${file.assetId} in Contentful`}
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  <span className="w-3" />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm px-4"
+      onMouseDown={handleOverlayClick}
+    >
+      <div className={`relative flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl shadow-2xl border ${
+        isDarkMode ? 'bg-gray-900 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+      }`}>
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-full p-2 transition-colors hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label="Close history"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="p-6 space-y-4 shrink-0">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-semibold">
+              <History className="w-5 h-5" />
+              Session History
+            </h2>
+            <p className={`${isDarkMode ? 'text-gray-300' : 'text-gray-600'} text-sm`}>
+              Past upload sessions stored in this browser.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative flex-1 min-w-48">
+              <Search className={`absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 ${mutedText}`} />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search file names, asset IDs, tags, spaces..."
+                className="input pl-9"
+              />
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Older than</span>
+              <input
+                type="number"
+                min="1"
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="input w-20"
+                aria-label="Days"
+              />
+              <span>days</span>
+              <button type="button" onClick={() => void handleDeleteOld()} className="btn btn-secondary">
+                Delete
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => void handleClearAll()}
+              disabled={sessions.length === 0}
+              className="btn btn-danger flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear All
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto">
+          {isLoading ? (
+            <div className={`flex items-center justify-center gap-2 py-8 ${mutedText}`}>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : visibleSessions.length === 0 ? (
+            <p className={`py-8 text-center ${mutedText}`}>
+              {sessions.length === 0 ? 'No sessions yet. Sessions are saved here when an upload finishes.' : 'No sessions match your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {visibleSessions.map(renderSession)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,32 @@
 import React from 'react'
-import { Eye, EyeOff, Save, Trash2, X } from 'lucide-react'
+import { Eye, EyeOff, Globe, ImageDown, Link2, Loader2, Plus, RefreshCw, Save, ShieldCheck, Trash2, Type, X } from 'lucide-react'
 import { toast } from 'sonner'
-import { useAppStore } from '../store/useAppStore'
+import { useAppStore, type PublishMode } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+import { parseFolderLevels } from '../utils/folderPath'
+import { applyNamingRules, getPatternError, NAMING_TOKENS } from '../utils/naming'
+import type { OptimizedFormat } from '../utils/imageOptimizer'
+import { CONTENTFUL_MAX_SIZE_MB, parseAllowedTypes, type ValidationProfile } from '../utils/validation'
+import { ENTRY_FIELD_SOURCES, isAssetLinkField, isMappableField, type EntryFieldMapping, type EntryFieldSource } from '../utils/entryLinking'
+import { SpaceEnvironmentPicker } from './SpaceEnvironmentPicker'
+import { TokenSecurity } from './TokenSecurity'
+
+const PUBLISH_MODES: { value: PublishMode; label: string; description: string }[] = [
+  { value: 'publish', label: 'Publish now', description: 'Assets are published as soon as they finish processing.' },
+  { value: 'draft', label: 'Leave as draft', description: 'Assets stay in draft for review.' },
+  { value: 'schedule', label: 'Schedule publish', description: 'A scheduled action publishes the assets at the chosen time.' }
+]
+
+// Shown in the naming rules preview
+const SAMPLE_FILE = new File([], 'IMG_2034_final-v3.JPG')
+
+// datetime-local inputs work with local time without a timezone suffix
+const toDateTimeLocal = (iso?: string) => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
 
 interface SettingsProps {
   isOpen: boolean
@@ -14,15 +39,64 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
     credentials,
     setCredentials,
     clearCredentials,
+    connectionProfiles,
+    activeConnectionProfileId,
+    switchConnectionProfile,
+    addConnectionProfile,
+    renameConnectionProfile,
+    removeConnectionProfile,
     parallelCount,
     setParallelCount,
     isUploading,
     isDarkMode,
     autoTagFromFolder,
-    setAutoTagFromFolder
+    setAutoTagFromFolder,
+    folderTagLevels,
+    setFolderTagLevels,
+    folderTitlePrefix,
+    setFolderTitlePrefix,
+    readEmbeddedMetadata,
+    setReadEmbeddedMetadata,
+    namingRules,
+    setNamingRules,
+    entryLinking,
+    setEntryLinking,
+    contentTypes,
+    setContentTypes,
+    imageOptimization,
+    setImageOptimization,
+    validationProfiles,
+    activeValidationProfileId,
+    setActiveValidationProfile,
+    addValidationProfile,
+    updateValidationProfile,
+    removeValidationProfile,
+    checkDuplicates,
+    setCheckDuplicates,
+    adaptiveConcurrency,
+    setAdaptiveConcurrency,
+    retryMaxAttempts,
+    setRetryMaxAttempts,
+    retryBaseDelayMs,
+    setRetryBaseDelayMs,
+    publishMode,
+    setPublishMode,
+    scheduledPublishAt,
+    setScheduledPublishAt,
+    locales,
+    setLocales,
+    extraLocales,
+    setExtraLocales,
+    localeFieldValues,
+    setLocaleFieldValue
   } = useAppStore()
 
   const [showToken, setShowToken] = React.useState(false)
+  const [isLoadingLocales, setIsLoadingLocales] = React.useState(false)
+  const [isLoadingContentTypes, setIsLoadingContentTypes] = React.useState(false)
+  const activeConnectionProfile = connectionProfiles.find(p => p.id === activeConnectionProfileId) ?? connectionProfiles[0]
+  const activeProfile: ValidationProfile = validationProfiles.find(p => p.id === activeValidationProfileId) ?? validationProfiles[0]
+  const [folderLevelsInput, setFolderLevelsInput] = React.useState(folderTagLevels.join(', '))
 
   React.useEffect(() => {
     if (!isOpen) {
@@ -52,12 +126,75 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
     handleSave()
   }
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    // Reconnecting swaps the client that running uploads are using
+    if (isUploading) {
+      toast.error('Wait for the current uploads to finish before changing credentials')
+      return
+    }
     if (!credentials.spaceId || !credentials.environmentId || !credentials.token) {
       toast.error('Please fill in all credential fields')
       return
     }
     toast.success('Credentials saved successfully')
+
+    setIsLoadingLocales(true)
+    const connection = await contentfulService.connect(credentials)
+    setIsLoadingLocales(false)
+
+    if (!connection.success) {
+      toast.error(`Could not load locales: ${connection.error}`)
+      return
+    }
+    setLocales(connection.locales ?? [])
+  }
+
+  const handleLoadContentTypes = async () => {
+    if (!credentials.spaceId || !credentials.environmentId || !credentials.token) {
+      toast.error('Please fill in all credential fields')
+      return
+    }
+
+    setIsLoadingContentTypes(true)
+    try {
+      const connection = await contentfulService.connect(credentials)
+      if (!connection.success) {
+        toast.error(`Could not load content types: ${connection.error}`)
+        return
+      }
+      const result = await contentfulService.getContentTypes()
+      if (result.success && result.contentTypes) {
+        setContentTypes(result.contentTypes)
+      } else {
+        toast.error(`Could not load content types: ${result.error}`)
+      }
+    } finally {
+      setIsLoadingContentTypes(false)
+    }
+  }
+
+  const selectedContentType = contentTypes.find((ct) => ct.id === entryLinking.contentTypeId)
+  const assetFields = selectedContentType?.fields.filter(isAssetLinkField) ?? []
+  const mappableFields = selectedContentType?.fields.filter(isMappableField) ?? []
+
+  // Mappings refer to fields of the previous content type, so they start over
+  const handleContentTypeChange = (contentTypeId: string) => {
+    const contentType = contentTypes.find((ct) => ct.id === contentTypeId)
+    setEntryLinking({
+      contentTypeId,
+      assetFieldId: contentType?.fields.find(isAssetLinkField)?.id ?? '',
+      mappings: []
+    })
+  }
+
+  const updateEntryMapping = (index: number, changes: Partial<EntryFieldMapping>) => {
+    setEntryLinking({
+      mappings: entryLinking.mappings.map((mapping, i) => i === index ? { ...mapping, ...changes } : mapping)
+    })
+  }
+
+  const handleExtraLocaleToggle = (code: string, enabled: boolean) => {
+    setExtraLocales(enabled ? [...extraLocales, code] : extraLocales.filter((c) => c !== code))
   }
 
   const handleClear = () => {
@@ -78,13 +215,23 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
     }
   }
 
-  const handleParallelChange = (value: string) => {
+  const handleScheduleChange = (value: string) => {
+    setScheduledPublishAt(value ? new Date(value).toISOString() : undefined)
+  }
+
+  const handleNumberChange = (value: string, setter: (value: number) => void) => {
     const parsedValue = parseInt(value, 10)
     if (!Number.isNaN(parsedValue)) {
-      setParallelCount(parsedValue)
+      setter(parsedValue)
     }
   }
 
+  // Empty dimension inputs remove the limit
+  const handleDimensionChange = (value: string, key: 'minWidth' | 'minHeight' | 'maxWidth' | 'maxHeight') => {
+    const parsedValue = parseInt(value, 10)
+    updateValidationProfile(activeProfile.id, { [key]: Number.isNaN(parsedValue) || parsedValue <= 0 ? undefined : parsedValue })
+  }
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm px-4"
@@ -131,27 +278,49 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
 
               <form onSubmit={handleSubmit} className="space-y-4 px-5 pb-5 pt-4">
                 <div>
-                  <label className="block text-sm font-medium mb-1">Space ID</label>
-                  <input
-                    autoComplete="off"
-                    type="text"
-                    className="input"
-                    placeholder="Enter Space ID"
-                    value={credentials.spaceId}
-                    onChange={(e) => setCredentials({ spaceId: e.target.value })}
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium mb-1">Environment ID</label>
+                  <label className="block text-sm font-medium mb-1">Connection Profile</label>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={activeConnectionProfile.id}
+                      onChange={(e) => switchConnectionProfile(e.target.value)}
+                      className="input flex-1"
+                      disabled={isUploading}
+                    >
+                      {connectionProfiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={addConnectionProfile}
+                      disabled={isUploading}
+                      className="btn btn-secondary flex items-center gap-1"
+                      title="Add profile"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeConnectionProfile(activeConnectionProfile.id)}
+                      disabled={isUploading || connectionProfiles.length <= 1}
+                      className="btn btn-secondary flex items-center gap-1"
+                      title="Delete profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                   <input
                     autoComplete="off"
                     type="text"
-                    className="input"
-                    placeholder="e.g., master"
-                    value={credentials.environmentId}
-                    onChange={(e) => setCredentials({ environmentId: e.target.value })}
+                    className="input mt-2"
+                    placeholder="Profile name, e.g. Production"
+                    value={activeConnectionProfile.name}
+                    onChange={(e) => renameConnectionProfile(activeConnectionProfile.id, e.target.value)}
+                    disabled={isUploading}
                   />
+                  <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Each profile keeps its own credentials, locales, concurrency, duplicate check, publish mode, linked entry and validation choices.
+                  </p>
                 </div>
 
                 <div>
@@ -164,6 +333,7 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
                       placeholder="Enter Content Management API Token"
                       value={credentials.token}
                       onChange={(e) => setCredentials({ token: e.target.value })}
+                      disabled={isUploading}
                     />
                     <button
                       type="button"
@@ -175,14 +345,77 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
                   </div>
                 </div>
 
+                <SpaceEnvironmentPicker />
+
                 <button
                   type="submit"
+                  disabled={isLoadingLocales || isUploading}
                   className="btn btn-primary w-full flex items-center justify-center gap-2"
                 >
-                  <Save className="w-4 h-4" />
+                  {isLoadingLocales ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
                   Save Credentials
                 </button>
               </form>
+
+              <div className={`border-t px-5 pb-5 pt-4 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <TokenSecurity />
+              </div>
+
+              {locales.length > 0 && (
+                <div className={`border-t px-5 pb-5 pt-4 space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2">
+                    <Globe className="w-4 h-4" />
+                    <h4 className="text-sm font-medium">Locales</h4>
+                  </div>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Files are uploaded to the default locale. Select extra locales to fill their title and description.
+                  </p>
+                  <ul className="space-y-2">
+                    {locales.map((locale) => (
+                      <li key={locale.code} className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            id={`locale-${locale.code}`}
+                            checked={locale.default || extraLocales.includes(locale.code)}
+                            disabled={locale.default || isUploading}
+                            onChange={(e) => handleExtraLocaleToggle(locale.code, e.target.checked)}
+                            className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                          />
+                          <label htmlFor={`locale-${locale.code}`} className="text-sm">
+                            {locale.name} <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>({locale.code})</span>
+                            {locale.default && (
+                              <span className={`ml-2 text-xs ${isDarkMode ? 'text-blue-300' : 'text-blue-600'}`}>Default</span>
+                            )}
+                          </label>
+                        </div>
+                        {!locale.default && extraLocales.includes(locale.code) && (
+                          <div className="grid gap-2 pl-6 sm:grid-cols-2">
+                            <input
+                              autoComplete="off"
+                              type="text"
+                              className="input"
+                              placeholder="Title (defaults to the generated title)"
+                              value={localeFieldValues[locale.code]?.title ?? ''}
+                              onChange={(e) => setLocaleFieldValue(locale.code, { title: e.target.value })}
+                              disabled={isUploading}
+                            />
+                            <input
+                              autoComplete="off"
+                              type="text"
+                              className="input"
+                              placeholder="Description (defaults to the generated description)"
+                              value={localeFieldValues[locale.code]?.description ?? ''}
+                              onChange={(e) => setLocaleFieldValue(locale.code, { description: e.target.value })}
+                              disabled={isUploading}
+                            />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             <div className={`rounded-xl border h-full ${isDarkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-50'}`}>
@@ -200,17 +433,71 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
                     min="1"
                     max="10"
                     value={parallelCount}
-                    onChange={(e) => handleParallelChange(e.target.value)}
+                    onChange={(e) => handleNumberChange(e.target.value, setParallelCount)}
                     className="input w-24"
                     disabled={isUploading}
                   />
                   <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                    Number of simultaneous uploads (1-10)
+                    {adaptiveConcurrency
+                      ? 'Starting number of simultaneous uploads (1-10)'
+                      : 'Number of simultaneous uploads (1-10)'}
                   </p>
                 </div>
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    id="adaptiveConcurrency"
+                    checked={adaptiveConcurrency}
+                    onChange={(e) => setAdaptiveConcurrency(e.target.checked)}
+                    disabled={isUploading}
+                    className="mt-1 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                  />
+                  <div>
+                    <label 
+                      htmlFor="adaptiveConcurrency" 
+                      className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
+                    >
+                      Adaptive concurrency
+                    </label>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Adds an upload slot after each round of successful uploads and halves them when Contentful rate limits requests.
+                    </p>
+                  </div>
+                </div>
                 <div className={`rounded-lg p-3 ${isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-white text-gray-700'} text-sm`}>
                   High concurrency increases speed but may trigger API rate limits.
                 </div>
+                <div className="grid gap-4 grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Max Attempts</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={retryMaxAttempts}
+                      onChange={(e) => handleNumberChange(e.target.value, setRetryMaxAttempts)}
+                      className="input w-24"
+                      disabled={isUploading}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Retry Delay (ms)</label>
+                    <input
+                      type="number"
+                      min="100"
+                      max="30000"
+                      step="100"
+                      value={retryBaseDelayMs}
+                      onChange={(e) => handleNumberChange(e.target.value, setRetryBaseDelayMs)}
+                      className="input w-28"
+                      disabled={isUploading}
+                    />
+                  </div>
+                </div>
+                <p className={`text-xs -mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Rate limits, server errors, dropped connections and processing timeouts are retried with exponential backoff.
+                  The delay doubles on each attempt and never undercuts Contentful's rate-limit reset.
+                </p>
                 <div className="flex items-start gap-3">
                   <input
                     type="checkbox"
@@ -225,13 +512,579 @@ export function Settings({ isOpen, onClose, canClose }: SettingsProps) {
                       htmlFor="autoTagFromFolder" 
                       className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
                     >
-                      Tag based on folder name
+                      Tag based on folder names
                     </label>
                     <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      When enabled, dropping a folder automatically turns on tagging and uses the folder name for the tag.
+                      When enabled, files dropped inside folders are tagged with the names of the folders they sit in, at any depth.
                     </p>
+                    {autoTagFromFolder && (
+                      <div className="mt-2">
+                        <label htmlFor="folderTagLevels" className="block text-xs font-medium mb-1">Folder levels to tag</label>
+                        <input
+                          id="folderTagLevels"
+                          type="text"
+                          value={folderLevelsInput}
+                          onChange={(e) => setFolderLevelsInput(e.target.value)}
+                          onBlur={() => {
+                            const levels = parseFolderLevels(folderLevelsInput)
+                            setFolderTagLevels(levels)
+                            setFolderLevelsInput(levels.join(', '))
+                          }}
+                          placeholder="All levels"
+                          autoComplete="off"
+                          className="input w-40"
+                          disabled={isUploading}
+                        />
+                        <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          Comma-separated depths, 1 being the dropped folder. For campaign/hero/desktop, "1, 3" tags with campaign and desktop.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    id="folderTitlePrefix"
+                    checked={folderTitlePrefix}
+                    onChange={(e) => setFolderTitlePrefix(e.target.checked)}
+                    disabled={isUploading}
+                    className="mt-1 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                  />
+                  <div>
+                    <label 
+                      htmlFor="folderTitlePrefix" 
+                      className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
+                    >
+                      Prefix titles with folder path
+                    </label>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Files dropped inside folders get titles like campaign/hero/desktop/banner.jpg.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    id="readEmbeddedMetadata"
+                    checked={readEmbeddedMetadata}
+                    onChange={(e) => setReadEmbeddedMetadata(e.target.checked)}
+                    disabled={isUploading}
+                    className="mt-1 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                  />
+                  <div>
+                    <label 
+                      htmlFor="readEmbeddedMetadata" 
+                      className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
+                    >
+                      Read embedded image metadata
+                    </label>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      EXIF, IPTC and XMP captions become descriptions, keywords become tags, and creator and copyright form a credit line added to the description.
+                    </p>
+                  </div>
+                </div>
+                <div className={`border-t pt-4 space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    <h4 className="text-sm font-medium">Validation</h4>
+                  </div>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Files that break the active profile are listed as rejected instead of being queued.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={activeProfile.id}
+                      onChange={(e) => setActiveValidationProfile(e.target.value)}
+                      className="input flex-1"
+                      disabled={isUploading}
+                    >
+                      {validationProfiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={addValidationProfile}
+                      disabled={isUploading}
+                      className="btn btn-secondary flex items-center gap-1"
+                      title="Add profile"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeValidationProfile(activeProfile.id)}
+                      disabled={isUploading || validationProfiles.length <= 1}
+                      className="btn btn-secondary flex items-center gap-1"
+                      title="Delete profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="grid gap-4 grid-cols-2">
+                    <div>
+                      <label className="block text-xs font-medium mb-1">Profile Name</label>
+                      <input
+                        type="text"
+                        autoComplete="off"
+                        value={activeProfile.name}
+                        onChange={(e) => updateValidationProfile(activeProfile.id, { name: e.target.value })}
+                        className="input"
+                        disabled={isUploading}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium mb-1">Max Size (MB)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max={CONTENTFUL_MAX_SIZE_MB}
+                        value={activeProfile.maxSizeMb}
+                        onChange={(e) => handleNumberChange(e.target.value, (maxSizeMb) =>
+                          updateValidationProfile(activeProfile.id, { maxSizeMb: Math.max(1, Math.min(CONTENTFUL_MAX_SIZE_MB, maxSizeMb)) })
+                        )}
+                        className="input w-28"
+                        disabled={isUploading}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium mb-1">Allowed Types</label>
+                    <input
+                      key={activeProfile.id}
+                      type="text"
+                      autoComplete="off"
+                      defaultValue={activeProfile.allowedTypes.join(', ')}
+                      onBlur={(e) => {
+                        const allowedTypes = parseAllowedTypes(e.target.value)
+                        updateValidationProfile(activeProfile.id, { allowedTypes })
+                        e.target.value = allowedTypes.join(', ')
+                      }}
+                      placeholder="Any type, e.g. image/*, application/pdf, .glb"
+                      className="input"
+                      disabled={isUploading}
+                    />
+                  </div>
+                  <div className="grid gap-4 grid-cols-2">
+                    {([
+                      ['minWidth', 'Min Width (px)'],
+                      ['minHeight', 'Min Height (px)'],
+                      ['maxWidth', 'Max Width (px)'],
+                      ['maxHeight', 'Max Height (px)']
+                    ] as const).map(([key, label]) => (
+                      <div key={key}>
+                        <label className="block text-xs font-medium mb-1">{label}</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={activeProfile[key] ?? ''}
+                          onChange={(e) => handleDimensionChange(e.target.value, key)}
+                          placeholder="No limit"
+                          className="input w-28"
+                          disabled={isUploading}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className={`border-t pt-4 space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2">
+                    <ImageDown className="w-4 h-4" />
+                    <h4 className="text-sm font-medium">Image Optimisation</h4>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={imageOptimization.enabled}
+                      onChange={(e) => setImageOptimization({ enabled: e.target.checked })}
+                      disabled={isUploading}
+                      className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                    />
+                    Optimise images before upload
+                  </label>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    JPEG, PNG, WebP and AVIF files are resized, re-encoded and stripped of EXIF/GPS data in the browser.
+                    The file list shows both sizes and lets you upload the original instead.
+                  </p>
+                  {imageOptimization.enabled && (
+                    <div className="grid gap-4 grid-cols-2">
+                      <div>
+                        <label className="block text-xs font-medium mb-1">Max Width (px)</label>
+                        <input
+                          type="number"
+                          min="16"
+                          max="16384"
+                          value={imageOptimization.maxWidth}
+                          onChange={(e) => handleNumberChange(e.target.value, (maxWidth) => setImageOptimization({ maxWidth }))}
+                          className="input w-28"
+                          disabled={isUploading}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium mb-1">Max Height (px)</label>
+                        <input
+                          type="number"
+                          min="16"
+                          max="16384"
+                          value={imageOptimization.maxHeight}
+                          onChange={(e) => handleNumberChange(e.target.value, (maxHeight) => setImageOptimization({ maxHeight }))}
+                          className="input w-28"
+                          disabled={isUploading}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium mb-1">Format</label>
+                        <select
+                          value={imageOptimization.format}
+                          onChange={(e) => setImageOptimization({ format: e.target.value as OptimizedFormat })}
+                          className="input w-28"
+                          disabled={isUploading}
+                        >
+                          <option value="webp">WebP</option>
+                          <option value="avif">AVIF</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium mb-1">Quality (1-100)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="100"
+                          value={imageOptimization.quality}
+                          onChange={(e) => handleNumberChange(e.target.value, (quality) => setImageOptimization({ quality }))}
+                          className="input w-24"
+                          disabled={isUploading}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <div className={`border-t pt-4 space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2">
+                    <Type className="w-4 h-4" />
+                    <h4 className="text-sm font-medium">Naming Rules</h4>
+                  </div>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Used for files without a title or description from a manifest. Available tokens: {NAMING_TOKENS.join(' ')}
+                  </p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="titleTemplate" className="block text-xs font-medium mb-1">Title template</label>
+                      <input
+                        id="titleTemplate"
+                        type="text"
+                        autoComplete="off"
+                        className="input"
+                        value={namingRules.titleTemplate}
+                        onChange={(e) => setNamingRules({ titleTemplate: e.target.value })}
+                        disabled={isUploading}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="descriptionTemplate" className="block text-xs font-medium mb-1">Description template</label>
+                      <input
+                        id="descriptionTemplate"
+                        type="text"
+                        autoComplete="off"
+                        className="input"
+                        value={namingRules.descriptionTemplate}
+                        onChange={(e) => setNamingRules({ descriptionTemplate: e.target.value })}
+                        disabled={isUploading}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <span className="block text-xs font-medium">Find and replace (regular expressions)</span>
+                    {namingRules.replacements.map((replacement, index) => {
+                      const patternError = replacement.find ? getPatternError(replacement.find) : undefined
+                      const updateReplacement = (changes: Partial<typeof replacement>) =>
+                        setNamingRules({
+                          replacements: namingRules.replacements.map((item, i) => i === index ? { ...item, ...changes } : item)
+                        })
+                      return (
+                        <div key={index}>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              autoComplete="off"
+                              className={`input font-mono text-xs ${patternError ? 'border-red-500' : ''}`}
+                              placeholder="Find, e.g. [_-]+"
+                              value={replacement.find}
+                              onChange={(e) => updateReplacement({ find: e.target.value })}
+                              disabled={isUploading}
+                            />
+                            <input
+                              type="text"
+                              autoComplete="off"
+                              className="input font-mono text-xs"
+                              placeholder="Replace with"
+                              value={replacement.replace}
+                              onChange={(e) => updateReplacement({ replace: e.target.value })}
+                              disabled={isUploading}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setNamingRules({ replacements: namingRules.replacements.filter((_, i) => i !== index) })}
+                              disabled={isUploading}
+                              className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                              title="Remove rule"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                          {patternError && (
+                            <p className={`text-xs mt-1 ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{patternError}</p>
+                          )}
+                        </div>
+                      )
+                    })}
+                    <button
+                      type="button"
+                      onClick={() => setNamingRules({ replacements: [...namingRules.replacements, { find: '', replace: '' }] })}
+                      disabled={isUploading}
+                      className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'} disabled:opacity-50`}
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add rule
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={namingRules.stripExtension}
+                        onChange={(e) => setNamingRules({ stripExtension: e.target.checked })}
+                        disabled={isUploading}
+                        className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                      />
+                      Strip extension
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={namingRules.titleCase}
+                        onChange={(e) => setNamingRules({ titleCase: e.target.checked })}
+                        disabled={isUploading}
+                        className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                      />
+                      Title case
+                    </label>
+                  </div>
+                  <div className={`rounded-lg p-3 text-xs ${isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-white text-gray-700'}`}>
+                    {SAMPLE_FILE.name} → {applyNamingRules(namingRules, { file: SAMPLE_FILE, folderPath: 'campaign/hero', index: 1 }).title}
+                  </div>
+                </div>
+                <div className={`border-t pt-4 space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2">
+                    <Link2 className="w-4 h-4" />
+                    <h4 className="text-sm font-medium">Linked Entries</h4>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={entryLinking.enabled}
+                      onChange={(e) => setEntryLinking({ enabled: e.target.checked })}
+                      disabled={isUploading}
+                      className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                    />
+                    Create an entry for each uploaded asset
+                  </label>
+                  <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    After an asset is uploaded, an entry of the chosen content type is created with its asset field linking to it.
+                    Values are written to the default locale.
+                  </p>
+                  {entryLinking.enabled && (
+                    <div className="space-y-3">
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        <div>
+                          <label htmlFor="entryContentType" className="block text-xs font-medium mb-1">Content type</label>
+                          <div className="flex items-center gap-2">
+                            <select
+                              id="entryContentType"
+                              value={entryLinking.contentTypeId}
+                              onChange={(e) => handleContentTypeChange(e.target.value)}
+                              className="input"
+                              disabled={isUploading || contentTypes.length === 0}
+                            >
+                              {!selectedContentType && (
+                                <option value={entryLinking.contentTypeId}>
+                                  {entryLinking.contentTypeId || 'Load content types first'}
+                                </option>
+                              )}
+                              {contentTypes.map((ct) => (
+                                <option key={ct.id} value={ct.id}>{ct.name}</option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => void handleLoadContentTypes()}
+                              disabled={isUploading || isLoadingContentTypes}
+                              className={`p-1 ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+                              title="Load content types from Contentful"
+                            >
+                              {isLoadingContentTypes ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </div>
+                        <div>
+                          <label htmlFor="entryAssetField" className="block text-xs font-medium mb-1">Asset field</label>
+                          <select
+                            id="entryAssetField"
+                            value={entryLinking.assetFieldId}
+                            onChange={(e) => setEntryLinking({ assetFieldId: e.target.value })}
+                            className="input"
+                            disabled={isUploading || !selectedContentType}
+                          >
+                            {!selectedContentType && entryLinking.assetFieldId && (
+                              <option value={entryLinking.assetFieldId}>{entryLinking.assetFieldId}</option>
+                            )}
+                            {selectedContentType && assetFields.length === 0 && (
+                              <option value="">No media fields</option>
+                            )}
+                            {assetFields.map((field) => (
+                              <option key={field.id} value={field.id}>{field.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <span className="block text-xs font-medium">Field mappings</span>
+                        {entryLinking.mappings.map((mapping, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <select
+                              value={mapping.fieldId}
+                              onChange={(e) => updateEntryMapping(index, { fieldId: e.target.value })}
+                              className="input text-xs"
+                              disabled={isUploading}
+                              aria-label="Entry field"
+                            >
+                              {!mappableFields.some((field) => field.id === mapping.fieldId) && (
+                                <option value={mapping.fieldId}>{mapping.fieldId || 'Pick a field'}</option>
+                              )}
+                              {mappableFields.map((field) => (
+                                <option key={field.id} value={field.id}>{field.name}</option>
+                              ))}
+                            </select>
+                            <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>←</span>
+                            <select
+                              value={mapping.source}
+                              onChange={(e) => updateEntryMapping(index, { source: e.target.value as EntryFieldSource })}
+                              className="input text-xs"
+                              disabled={isUploading}
+                              aria-label="Value"
+                            >
+                              {ENTRY_FIELD_SOURCES.map((source) => (
+                                <option key={source.value} value={source.value}>{source.label}</option>
+                              ))}
+                            </select>
+                            {mapping.source === 'static' && (
+                              <input
+                                type="text"
+                                autoComplete="off"
+                                className="input text-xs"
+                                placeholder="Text"
+                                value={mapping.value ?? ''}
+                                onChange={(e) => updateEntryMapping(index, { value: e.target.value })}
+                                disabled={isUploading}
+                              />
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setEntryLinking({ mappings: entryLinking.mappings.filter((_, i) => i !== index) })}
+                              disabled={isUploading}
+                              className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                              title="Remove mapping"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setEntryLinking({
+                            mappings: [...entryLinking.mappings, { fieldId: mappableFields[0]?.id ?? '', source: 'title' }]
+                          })}
+                          disabled={isUploading || !selectedContentType}
+                          className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'} disabled:opacity-50`}
+                        >
+                          <Plus className="w-3 h-3" />
+                          Add mapping
+                        </button>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={entryLinking.publish}
+                          onChange={(e) => setEntryLinking({ publish: e.target.checked })}
+                          disabled={isUploading}
+                          className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                        />
+                        Publish entries
+                      </label>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    id="checkDuplicates"
+                    checked={checkDuplicates}
+                    onChange={(e) => setCheckDuplicates(e.target.checked)}
+                    disabled={isUploading}
+                    className="mt-1 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                  />
+                  <div>
+                    <label 
+                      htmlFor="checkDuplicates" 
+                      className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
+                    >
+                      Check for existing assets
+                    </label>
+                    <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Before uploading, look for assets in the environment with the same content or the same file name and size. Content fingerprints of uploaded assets are kept in one draft entry of the "Asset Uploader Fingerprints" content type, created on first use.
+                    </p>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Publishing</label>
+                  <div className="space-y-2">
+                    {PUBLISH_MODES.map((mode) => (
+                      <div key={mode.value} className="flex items-start gap-3">
+                        <input
+                          type="radio"
+                          id={`publishMode-${mode.value}`}
+                          name="publishMode"
+                          value={mode.value}
+                          checked={publishMode === mode.value}
+                          onChange={() => setPublishMode(mode.value)}
+                          disabled={isUploading}
+                          className="mt-1 border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-700"
+                        />
+                        <div>
+                          <label
+                            htmlFor={`publishMode-${mode.value}`}
+                            className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}
+                          >
+                            {mode.label}
+                          </label>
+                          <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            {mode.description}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {publishMode === 'schedule' && (
+                    <input
+                      type="datetime-local"
+                      value={toDateTimeLocal(scheduledPublishAt)}
+                      onChange={(e) => handleScheduleChange(e.target.value)}
+                      className="input mt-2"
+                      disabled={isUploading}
+                    />
+                  )}
+                </div>
               </div>
             </div>
           </div>
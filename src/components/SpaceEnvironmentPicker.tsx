@@ -0,0 +1,205 @@
+import React from 'react'
+import { Loader2, PenLine, ShieldCheck } from 'lucide-react'
+import { useAppStore, type EnvironmentAliasInfo, type EnvironmentInfo, type SpaceInfo } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+
+// Wait for the token to stop changing before asking Contentful
+const DISCOVERY_DELAY_MS = 600
+
+interface SpaceDiscovery {
+  token: string
+  spaces?: SpaceInfo[]
+  error?: string
+}
+
+interface EnvironmentDiscovery {
+  token: string
+  spaceId: string
+  environments?: EnvironmentInfo[]
+  aliases?: EnvironmentAliasInfo[]
+  role?: string
+  error?: string
+}
+
+const formatEnvironment = (env: EnvironmentInfo) => {
+  const label = env.name === env.id ? env.id : `${env.name} (${env.id})`
+  return env.status === 'ready' ? label : `${label} - ${env.status}`
+}
+
+// Space and environment fields that list what the token can reach, falling back to free text
+export function SpaceEnvironmentPicker() {
+  const { credentials, setCredentials, isUploading, isDarkMode } = useAppStore()
+  const { token, spaceId, environmentId } = credentials
+  const [spaceDiscovery, setSpaceDiscovery] = React.useState<SpaceDiscovery | null>(null)
+  const [environmentDiscovery, setEnvironmentDiscovery] = React.useState<EnvironmentDiscovery | null>(null)
+  const [manualEntry, setManualEntry] = React.useState(false)
+
+  // Results are only used while they match the current token and space
+  const spaces = spaceDiscovery?.token === token ? spaceDiscovery : null
+  const environments =
+    environmentDiscovery?.token === token && environmentDiscovery.spaceId === spaceId ? environmentDiscovery : null
+  const selectedSpace = spaces?.spaces?.find(space => space.id === spaceId)
+  const isLoadingSpaces = !!token && !spaces
+  const isLoadingEnvironments = !!selectedSpace && !environments
+
+  React.useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const result = await contentfulService.discoverSpaces(token)
+      if (!cancelled) setSpaceDiscovery({ token, spaces: result.spaces, error: result.error })
+    }, DISCOVERY_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [token])
+
+  const selectedSpaceId = selectedSpace?.id
+  React.useEffect(() => {
+    if (!token || !selectedSpaceId) return
+    let cancelled = false
+    const load = async () => {
+      const result = await contentfulService.discoverEnvironments(token, selectedSpaceId)
+      if (!cancelled) setEnvironmentDiscovery({ token, spaceId: selectedSpaceId, ...result })
+    }
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [token, selectedSpaceId])
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500'
+  const errorText = isDarkMode ? 'text-red-400' : 'text-red-600'
+  const warningText = isDarkMode ? 'text-yellow-300' : 'text-yellow-700'
+  const showSpaceSelect = !manualEntry && !!spaces?.spaces?.length
+  const showEnvironmentSelect = showSpaceSelect && !!environments?.environments?.length
+  const environmentExists =
+    !environmentId ||
+    !!environments?.environments?.some(env => env.id === environmentId) ||
+    !!environments?.aliases?.some(alias => alias.id === environmentId)
+
+  const renderSpaceStatus = () => {
+    if (!token) return <p className={`text-xs mt-1 ${mutedText}`}>Enter a token to pick from the spaces it can reach.</p>
+    if (isLoadingSpaces) {
+      return (
+        <p className={`flex items-center gap-1 text-xs mt-1 ${mutedText}`}>
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Looking up spaces...
+        </p>
+      )
+    }
+    if (spaces?.error) return <p className={`text-xs mt-1 ${errorText}`}>Could not list spaces: {spaces.error}</p>
+    if (spaceId && !selectedSpace) {
+      return <p className={`text-xs mt-1 ${warningText}`}>This token has no access to a space with ID "{spaceId}".</p>
+    }
+    if (selectedSpace && manualEntry) return <p className={`text-xs mt-1 ${mutedText}`}>{selectedSpace.name}</p>
+    return null
+  }
+
+  const renderEnvironmentStatus = () => {
+    if (isLoadingEnvironments) {
+      return (
+        <p className={`flex items-center gap-1 text-xs mt-1 ${mutedText}`}>
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Looking up environments...
+        </p>
+      )
+    }
+    if (environments?.error) return <p className={`text-xs mt-1 ${errorText}`}>Could not list environments: {environments.error}</p>
+    if (environments && !environmentExists) {
+      return <p className={`text-xs mt-1 ${warningText}`}>There is no environment or alias "{environmentId}" in this space.</p>
+    }
+    return null
+  }
+
+  return (
+    <>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-sm font-medium">Space</label>
+          {!!spaces?.spaces?.length && (
+            <button
+              type="button"
+              onClick={() => setManualEntry(!manualEntry)}
+              disabled={isUploading}
+              className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-800'}`}
+            >
+              <PenLine className="w-3 h-3" />
+              {manualEntry ? 'Pick from list' : 'Enter IDs'}
+            </button>
+          )}
+        </div>
+        {showSpaceSelect ? (
+          <select
+            className="input"
+            value={spaceId}
+            onChange={(e) => setCredentials({ spaceId: e.target.value })}
+            disabled={isUploading}
+          >
+            <option value="">Select a space</option>
+            {spaceId && !selectedSpace && <option value={spaceId}>{spaceId} (not available)</option>}
+            {spaces?.spaces?.map(space => (
+              <option key={space.id} value={space.id}>{space.name} ({space.id})</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            autoComplete="off"
+            type="text"
+            className="input"
+            placeholder="Enter Space ID"
+            value={spaceId}
+            onChange={(e) => setCredentials({ spaceId: e.target.value })}
+            disabled={isUploading}
+          />
+        )}
+        {renderSpaceStatus()}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Environment</label>
+        {showEnvironmentSelect ? (
+          <select
+            className="input"
+            value={environmentId}
+            onChange={(e) => setCredentials({ environmentId: e.target.value })}
+            disabled={isUploading}
+          >
+            <option value="">Select an environment</option>
+            {!environmentExists && <option value={environmentId}>{environmentId} (not found)</option>}
+            <optgroup label="Environments">
+              {environments?.environments?.map(env => (
+                <option key={env.id} value={env.id}>{formatEnvironment(env)}</option>
+              ))}
+            </optgroup>
+            {!!environments?.aliases?.length && (
+              <optgroup label="Aliases">
+                {environments.aliases.map(alias => (
+                  <option key={alias.id} value={alias.id}>{alias.id} → {alias.environmentId}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        ) : (
+          <input
+            autoComplete="off"
+            type="text"
+            className="input"
+            placeholder="e.g., master"
+            value={environmentId}
+            onChange={(e) => setCredentials({ environmentId: e.target.value })}
+            disabled={isUploading}
+          />
+        )}
+        {renderEnvironmentStatus()}
+        {environments?.role && (
+          <p className={`flex items-center gap-1 text-xs mt-1 ${mutedText}`}>
+            <ShieldCheck className="w-3 h-3" />
+            Token role in {selectedSpace?.name ?? 'this space'}: {environments.role}
+          </p>
+        )}
+      </div>
+    </>
+  )
+}
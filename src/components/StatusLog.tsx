@@ -1,9 +1,23 @@
-import { Activity, CheckCircle, XCircle, Clock, AlertTriangle, Timer } from 'lucide-react'
+import { Activity, CheckCircle, XCircle, Clock, AlertTriangle, Timer, Copy, Gauge, Network, Ban } from 'lucide-react'
 import { useAppStore } from '../store/useAppStore'
 import { FileList } from './FileList'
+import { GalleryEntryBuilder } from './GalleryEntryBuilder'
 
 export function StatusLog() {
-  const { files, isUploading, isDarkMode, rateLimitCount, getEstimatedCompletionTime, uploadStartTime, uploadEndTime, firstEstimate, getSessionDuration } = useAppStore()
+  const {
+    files,
+    isUploading,
+    isDarkMode,
+    rateLimitCount,
+    getEstimatedCompletionTime,
+    uploadStartTime,
+    uploadEndTime,
+    firstEstimate,
+    getSessionDuration,
+    currentConcurrency,
+    adaptiveConcurrency,
+    apiEvents
+  } = useAppStore()
 
   const getStats = () => {
     const total = files.length
@@ -11,8 +25,19 @@ export function StatusLog() {
     const failed = files.filter(f => f.status === 'failed').length
     const processing = files.filter(f => f.status === 'processing').length
     const pending = files.filter(f => f.status === 'pending').length
+    const duplicates = files.filter(f => f.status === 'duplicate').length
+    const rejected = files.filter(f => f.status === 'rejected').length
 
-    return { total, completed, failed, processing, pending }
+    return { total, completed, failed, processing, pending, duplicates, rejected }
+  }
+
+  const getApiStats = () => {
+    const errors = apiEvents.filter(e => e.status === undefined || e.status >= 400).length
+    const timed = apiEvents.filter(e => e.latencyMs !== undefined)
+    const avgLatency = timed.length > 0
+      ? Math.round(timed.reduce((sum, e) => sum + e.latencyMs!, 0) / timed.length)
+      : null
+    return { requests: apiEvents.length, errors, avgLatency }
   }
 
   const formatDuration = (ms: number) => {
@@ -38,6 +63,18 @@ export function StatusLog() {
   }
 
   const stats = getStats()
+  const apiStats = getApiStats()
+
+  const renderApiStats = () => apiStats.requests > 0 && (
+    <div className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+      <Network className="w-4 h-4" />
+      <span>
+        {apiStats.requests} API requests
+        {apiStats.errors > 0 && ` · ${apiStats.errors} errors`}
+        {apiStats.avgLatency !== null && ` · avg ${apiStats.avgLatency} ms`}
+      </span>
+    </div>
+  )
 
   const renderStatusCard = () => (
     <div className="card">
@@ -97,6 +134,8 @@ export function StatusLog() {
         </div>
       )}
 
+      {!isUploading && <GalleryEntryBuilder />}
+
       {isUploading && (
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-blue-600 dark:text-blue-400">
@@ -109,12 +148,22 @@ export function StatusLog() {
               <span>Est. completion: {new Date(getEstimatedCompletionTime()!).toLocaleTimeString()}</span>
             </div>
           )}
+          {currentConcurrency !== undefined && (
+            <div className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              <Gauge className="w-4 h-4" />
+              <span>
+                Concurrency: {currentConcurrency}
+                {adaptiveConcurrency && ' (adaptive)'}
+              </span>
+            </div>
+          )}
           {rateLimitCount > 0 && (
             <div className="flex items-center gap-2 text-yellow-600 dark:text-yellow-400">
               <AlertTriangle className="w-4 h-4" />
               <span className="text-sm">{rateLimitCount} rate limit(s) encountered</span>
             </div>
           )}
+          {renderApiStats()}
         </div>
       )}
 
@@ -134,6 +183,20 @@ export function StatusLog() {
             </div>
           )}
           
+          {stats.duplicates > 0 && (
+            <div className="flex items-center gap-2 text-orange-600 dark:text-orange-400">
+              <Copy className="w-4 h-4" />
+              <span className="text-sm">{stats.duplicates} possible duplicates awaiting a decision</span>
+            </div>
+          )}
+
+          {stats.rejected > 0 && (
+            <div className="flex items-center gap-2 text-rose-600 dark:text-rose-400">
+              <Ban className="w-4 h-4" />
+              <span className="text-sm">{stats.rejected} files rejected by validation</span>
+            </div>
+          )}
+
           {stats.pending > 0 && (
             <div className={`flex items-center gap-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
               <Clock className="w-4 h-4" />
@@ -146,6 +209,7 @@ export function StatusLog() {
               <span className="text-sm">{rateLimitCount} rate limit(s) encountered</span>
             </div>
           )}
+          {renderApiStats()}
         </div>
       )}
     </div>
@@ -0,0 +1,217 @@
+import React from 'react'
+import { Globe, Lock, Plus, RefreshCw, X } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+import clsx from 'clsx'
+import { toast } from 'sonner'
+
+interface TagPickerProps {
+  id?: string
+  value: string[]
+  onChange: (names: string[]) => void
+  disabled?: boolean
+  compact?: boolean
+  placeholder?: string
+}
+
+export function TagPicker({
+  id,
+  value,
+  onChange,
+  disabled = false,
+  compact = false,
+  placeholder = 'Add a tag...'
+}: TagPickerProps) {
+  const { availableTags, setAvailableTags, newTagVisibility, credentials, tokensLocked, isDarkMode } = useAppStore()
+  const [input, setInput] = React.useState('')
+  const [isOpen, setIsOpen] = React.useState(false)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const hasLoaded = React.useRef(false)
+
+  const loadTags = async () => {
+    // A locked vault leaves the token blank; say so instead of failing to connect
+    if (tokensLocked) {
+      toast.error('Unlock your management tokens to load tags')
+      return
+    }
+    if (!credentials.spaceId || !credentials.environmentId || !credentials.token) return
+    hasLoaded.current = true
+    setIsLoading(true)
+    try {
+      // Reconnecting would reset the shared client and its locales, possibly under running uploads
+      if (!contentfulService.isConnectedTo(credentials)) {
+        const connection = await contentfulService.connect(credentials)
+        if (!connection.success) {
+          toast.error(`Could not load tags: ${connection.error}`)
+          return
+        }
+      }
+      const result = await contentfulService.getTags()
+      if (result.success && result.tags) {
+        setAvailableTags(result.tags.map(tag => ({ id: tag.sys.id, name: tag.name, visibility: tag.sys.visibility })))
+      } else {
+        toast.error(`Could not load tags: ${result.error}`)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selected = new Set(value.map(name => name.toLowerCase()))
+  const query = input.trim().toLowerCase()
+  const suggestions = availableTags
+    .filter(tag => !selected.has(tag.name.toLowerCase()))
+    .filter(tag => !query || tag.name.toLowerCase().includes(query) || tag.id.includes(query))
+    .slice(0, 20)
+  const isNewTag = query !== '' && !selected.has(query) && !availableTags.some(tag => tag.name.toLowerCase() === query)
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    onChange([...value, trimmed])
+    setInput('')
+  }
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(input)
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  const getVisibilityIcon = (name: string) => {
+    const known = availableTags.find(tag => tag.name.toLowerCase() === name.toLowerCase())
+    const visibility = known?.visibility ?? newTagVisibility
+    return visibility === 'public'
+      ? <Globe className="w-3 h-3 shrink-0" aria-label="Public tag" />
+      : <Lock className="w-3 h-3 shrink-0" aria-label="Private tag" />
+  }
+
+  return (
+    <div className="relative">
+      <div
+        className={clsx(
+          'flex flex-wrap items-center gap-1 border rounded-md',
+          compact ? 'px-1 py-0.5' : 'px-2 py-1.5',
+          isDarkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300',
+          disabled && 'opacity-50'
+        )}
+      >
+        {value.map(name => (
+          <span
+            key={name}
+            className={clsx(
+              'flex items-center gap-1 px-2 py-0.5 rounded-full text-xs',
+              isDarkMode ? 'bg-blue-900/40 text-blue-200' : 'bg-blue-100 text-blue-800'
+            )}
+          >
+            {getVisibilityIcon(name)}
+            {name}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeTag(name)}
+                className="hover:text-red-600"
+                title={`Remove ${name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setIsOpen(true)
+          }}
+          onFocus={() => {
+            setIsOpen(true)
+            // Existing tags are fetched the first time any picker is used
+            if (!hasLoaded.current && availableTags.length === 0) {
+              void loadTags()
+            }
+          }}
+          onBlur={() => {
+            // Suggestions keep focus on mouse down, so a blur means the user moved on
+            addTag(input)
+            setIsOpen(false)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={value.length === 0 ? placeholder : ''}
+          disabled={disabled}
+          autoComplete="off"
+          className={clsx(
+            'flex-1 min-w-[6rem] bg-transparent focus:outline-none',
+            compact ? 'text-xs' : 'text-sm',
+            isDarkMode ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-500'
+          )}
+        />
+        {!compact && (
+          <button
+            type="button"
+            onClick={() => void loadTags()}
+            disabled={disabled || isLoading}
+            className={`p-1 ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+            title="Reload tags from Contentful"
+          >
+            <RefreshCw className={clsx('w-3 h-3', isLoading && 'animate-spin')} />
+          </button>
+        )}
+      </div>
+
+      {isOpen && !disabled && (suggestions.length > 0 || isNewTag) && (
+        <ul
+          className={clsx(
+            'absolute z-20 mt-1 w-full max-h-48 overflow-y-auto rounded-md border shadow-lg text-sm',
+            isDarkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+          )}
+        >
+          {isNewTag && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(input)}
+                className={clsx(
+                  'w-full flex items-center gap-2 px-3 py-1.5 text-left',
+                  isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+                )}
+              >
+                <Plus className="w-3 h-3" />
+                Create {newTagVisibility} tag "{input.trim()}"
+              </button>
+            </li>
+          )}
+          {suggestions.map(tag => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className={clsx(
+                  'w-full flex items-center gap-2 px-3 py-1.5 text-left',
+                  isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+                )}
+              >
+                {tag.visibility === 'public' ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                <span className="truncate">{tag.name}</span>
+                <span className={`ml-auto text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>{tag.id}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import React from 'react'
+import { Loader2, Lock, Unlock } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { contentfulService } from '../services/contentfulService'
+import { getProfileTokens } from '../utils/connectionProfiles'
+import { decryptTokens, encryptTokens, isVaultUnlocked, lockVault } from '../utils/tokenVault'
+import { toast } from 'sonner'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000
+
+// Keeps the encrypted tokens current, locks after inactivity and asks for the passphrase while locked
+export function TokenLock() {
+  const { tokenStorage, tokensLocked, encryptedTokens, lockTokens, unlockTokens, setEncryptedTokens, isDarkMode } = useAppStore()
+  const [passphrase, setPassphrase] = React.useState('')
+  const [error, setError] = React.useState<string>()
+  const [isUnlocking, setIsUnlocking] = React.useState(false)
+  const isEncrypted = tokenStorage.mode === 'encrypted'
+
+  // Locking also drops the key and the connected client, so nothing holds a usable token
+  React.useEffect(() => {
+    if (tokensLocked) {
+      lockVault()
+      contentfulService.disconnect()
+    }
+  }, [tokensLocked])
+
+  // Re-encrypt whenever a token changes, including profiles being added or removed
+  React.useEffect(() => {
+    if (!isEncrypted || tokensLocked) return
+
+    const getTokensKey = () => {
+      const { connectionProfiles, activeConnectionProfileId, credentials } = useAppStore.getState()
+      return JSON.stringify(getProfileTokens(connectionProfiles, activeConnectionProfileId, credentials))
+    }
+    let lastKey = getTokensKey()
+    let writes = Promise.resolve()
+
+    return useAppStore.subscribe(() => {
+      const key = getTokensKey()
+      if (key === lastKey || !isVaultUnlocked()) return
+      lastKey = key
+      writes = writes
+        .then(async () => {
+          const payload = await encryptTokens(JSON.parse(key) as Record<string, string>)
+          // Locking in the meantime would leave blank tokens to encrypt
+          if (!useAppStore.getState().tokensLocked) useAppStore.getState().setEncryptedTokens(payload)
+        })
+        .catch(error => console.warn('Could not encrypt the tokens:', error))
+    })
+  }, [isEncrypted, tokensLocked])
+
+  const autoLockMs = tokenStorage.autoLockMinutes * 60 * 1000
+  React.useEffect(() => {
+    if (!isEncrypted || tokensLocked || autoLockMs <= 0 || !encryptedTokens) return
+
+    let lastActivity = Date.now()
+    const onActivity = () => {
+      lastActivity = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, onActivity, { passive: true }))
+    const interval = setInterval(() => {
+      // A running upload counts as activity
+      if (useAppStore.getState().isUploading) {
+        lastActivity = Date.now()
+        return
+      }
+      if (Date.now() - lastActivity >= autoLockMs) {
+        lockTokens()
+        toast.info('Locked after a period of inactivity')
+      }
+    }, IDLE_CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, onActivity))
+      clearInterval(interval)
+    }
+  }, [isEncrypted, tokensLocked, autoLockMs, encryptedTokens, lockTokens])
+
+  if (!tokensLocked || !encryptedTokens) {
+    return null
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsUnlocking(true)
+    setError(undefined)
+    try {
+      unlockTokens(await decryptTokens(encryptedTokens, passphrase))
+      setPassphrase('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock the tokens')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  const handleForget = () => {
+    if (!window.confirm('Forget the stored tokens? You will have to enter them again.')) return
+    lockVault()
+    setEncryptedTokens(undefined)
+    unlockTokens({})
+    setPassphrase('')
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm px-4">
+      <form
+        onSubmit={handleUnlock}
+        className={`w-full max-w-sm rounded-2xl shadow-2xl border p-6 space-y-4 ${
+          isDarkMode ? 'bg-gray-900 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+        }`}
+      >
+        <div>
+          <h2 className="flex items-center gap-2 text-xl font-semibold">
+            <Lock className="w-5 h-5" />
+            Unlock Tokens
+          </h2>
+          <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            Your management tokens are encrypted. Enter your passphrase to use them.
+          </p>
+        </div>
+        <input
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          className="input"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="btn btn-primary w-full flex items-center justify-center gap-2"
+        >
+          {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+          Unlock
+        </button>
+        <button
+          type="button"
+          onClick={handleForget}
+          className={`w-full text-xs ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+        >
+          Forgot the passphrase? Forget the stored tokens
+        </button>
+      </form>
+    </div>
+  )
+}
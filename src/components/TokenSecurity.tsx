@@ -0,0 +1,155 @@
+import React from 'react'
+import { KeyRound, Loader2, Lock } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { getProfileTokens } from '../utils/connectionProfiles'
+import { createVault, encryptTokens, getPassphraseError, lockVault, TOKEN_STORAGE_MODES, type TokenStorageMode } from '../utils/tokenVault'
+import { toast } from 'sonner'
+
+// How tokens are stored, shown under the credentials in Settings
+export function TokenSecurity() {
+  const {
+    tokenStorage,
+    setTokenStorage,
+    encryptedTokens,
+    setEncryptedTokens,
+    lockTokens,
+    connectionProfiles,
+    activeConnectionProfileId,
+    credentials,
+    isUploading,
+    isDarkMode
+  } = useAppStore()
+  const [passphrase, setPassphrase] = React.useState('')
+  const [confirmation, setConfirmation] = React.useState('')
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500'
+
+  // Leaving encrypted mode drops the ciphertext and the key with it
+  const handleModeChange = (mode: TokenStorageMode) => {
+    if (mode !== 'encrypted') {
+      lockVault()
+      setEncryptedTokens(undefined)
+    }
+    setTokenStorage({ mode })
+  }
+
+  const handleSetPassphrase = async () => {
+    const error = getPassphraseError(passphrase, confirmation)
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await createVault(passphrase)
+      setEncryptedTokens(await encryptTokens(getProfileTokens(connectionProfiles, activeConnectionProfileId, credentials)))
+      setPassphrase('')
+      setConfirmation('')
+      toast.success(encryptedTokens ? 'Passphrase changed' : 'Tokens encrypted')
+    } catch (err) {
+      toast.error(`Could not encrypt the tokens: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = parseInt(value, 10)
+    setTokenStorage({ autoLockMinutes: Number.isNaN(minutes) || minutes < 0 ? 0 : minutes })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <KeyRound className="w-4 h-4" />
+        <h4 className="text-sm font-medium">Token Storage</h4>
+      </div>
+      <div className="space-y-2">
+        {TOKEN_STORAGE_MODES.map(option => (
+          <label key={option.value} className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="tokenStorageMode"
+              value={option.value}
+              checked={tokenStorage.mode === option.value}
+              onChange={() => handleModeChange(option.value)}
+              disabled={isUploading}
+              className="mt-1 border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-700"
+            />
+            <span>
+              {option.label}
+              <span className={`block text-xs ${mutedText}`}>{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {tokenStorage.mode === 'encrypted' && (
+        <div className="space-y-3 pl-6">
+          {!encryptedTokens && (
+            <p className={`text-xs ${isDarkMode ? 'text-yellow-300' : 'text-yellow-700'}`}>
+              Set a passphrase to store your tokens. Until then they are only kept for this visit.
+            </p>
+          )}
+          <div className="grid gap-2 grid-cols-2">
+            <input
+              type="password"
+              autoComplete="new-password"
+              className="input"
+              placeholder={encryptedTokens ? 'New passphrase' : 'Passphrase'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <input
+              type="password"
+              autoComplete="new-password"
+              className="input"
+              placeholder="Repeat passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => void handleSetPassphrase()}
+              disabled={isSaving || !passphrase}
+              className="btn btn-secondary flex-1 flex items-center justify-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+              {encryptedTokens ? 'Change Passphrase' : 'Set Passphrase'}
+            </button>
+            {encryptedTokens && (
+              <button
+                type="button"
+                onClick={lockTokens}
+                disabled={isUploading}
+                className="btn btn-secondary flex items-center gap-2"
+              >
+                <Lock className="w-4 h-4" />
+                Lock Now
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="autoLockMinutes">Lock after</label>
+            <input
+              id="autoLockMinutes"
+              type="number"
+              min="0"
+              value={tokenStorage.autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(e.target.value)}
+              className="input w-20"
+            />
+            <span>minutes idle</span>
+          </div>
+          <p className={`text-xs ${mutedText}`}>
+            Set to 0 to stay unlocked until the page is closed. Uploads in progress are never interrupted.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
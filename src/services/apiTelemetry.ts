@@ -0,0 +1,86 @@
+export type ApiCategory =
+  | 'space'
+  | 'locale'
+  | 'asset'
+  | 'upload'
+  | 'tag'
+  | 'entry'
+  | 'content-type'
+  | 'scheduled-action'
+  | 'other'
+
+export interface RateLimitHeaders {
+  reset?: number // seconds until the limit resets
+  secondLimit?: number
+  secondRemaining?: number
+  hourLimit?: number
+  hourRemaining?: number
+}
+
+export interface ApiEvent {
+  id: number
+  timestamp: number
+  method: string
+  category: ApiCategory
+  url: string
+  status?: number // undefined when no response arrived
+  latencyMs?: number
+  rateLimit: RateLimitHeaders
+  fileId?: string
+  error?: string
+}
+
+export type ApiEventListener = (event: ApiEvent) => void
+
+const CATEGORY_PATTERNS: [RegExp, ApiCategory][] = [
+  [/\/uploads(\/|$)/, 'upload'],
+  [/\/assets(\/|$)/, 'asset'],
+  [/\/tags(\/|$)/, 'tag'],
+  [/\/locales(\/|$)/, 'locale'],
+  [/\/scheduled_actions(\/|$)/, 'scheduled-action'],
+  [/\/entries(\/|$)/, 'entry'],
+  [/\/content_types(\/|$)/, 'content-type'],
+  [/\/spaces\/[^/]+(\/environments\/[^/]+)?\/?$/, 'space']
+]
+
+export const categorizeUrl = (url: string): ApiCategory => {
+  const path = url.split('?')[0]
+  return CATEGORY_PATTERNS.find(([pattern]) => pattern.test(path))?.[1] ?? 'other'
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = Number(value)
+  return value !== undefined && value !== null && Number.isFinite(parsed) ? parsed : undefined
+}
+
+export const parseRateLimitHeaders = (headers?: Record<string, unknown> | null): RateLimitHeaders => ({
+  reset: toNumber(headers?.['x-contentful-ratelimit-reset']),
+  secondLimit: toNumber(headers?.['x-contentful-ratelimit-second-limit']),
+  secondRemaining: toNumber(headers?.['x-contentful-ratelimit-second-remaining']),
+  hourLimit: toNumber(headers?.['x-contentful-ratelimit-hour-limit']),
+  hourRemaining: toNumber(headers?.['x-contentful-ratelimit-hour-remaining'])
+})
+
+// Minimal publish/subscribe channel for the requests ContentfulService makes
+export class ApiTelemetry {
+  private listeners = new Set<ApiEventListener>()
+  private nextId = 1
+
+  subscribe(listener: ApiEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  emit(event: Omit<ApiEvent, 'id' | 'timestamp'>): void {
+    const fullEvent: ApiEvent = { ...event, id: this.nextId++, timestamp: Date.now() }
+    this.listeners.forEach((listener) => {
+      try {
+        listener(fullEvent)
+      } catch (error) {
+        console.error('API telemetry listener failed:', error)
+      }
+    })
+  }
+}
@@ -1,49 +1,151 @@
+import axios from 'axios'
 import { createClient } from 'contentful-management'
-import type { ClientAPI, Environment, Asset, Tag } from 'contentful-management'
-import { useAppStore } from '../store/useAppStore'
+import type { ClientAPI, Environment, Asset, Entry, Tag, TagVisibility, Space } from 'contentful-management'
+import type {
+  ContentTypeFieldInfo,
+  ContentTypeInfo,
+  EnvironmentAliasInfo,
+  EnvironmentInfo,
+  LocaleInfo,
+  LocaleFieldValues,
+  SpaceInfo,
+  DuplicateMatchType,
+  PublishMode,
+  UploadPhase,
+  UploadCheckpoint,
+} from '../store/useAppStore'
+import type { EntryFieldValues, EntryLinkSettings, GalleryEntrySettings } from '../utils/entryLinking'
+import { waitForRetry } from '../utils/retry'
+import { ApiTelemetry, categorizeUrl, parseRateLimitHeaders } from './apiTelemetry'
+
+const FALLBACK_LOCALE = "en-US";
+const UPLOAD_API_URL = "https://upload.contentful.com";
+
+// Share of the overall progress bar covered by the binary transfer; the rest is server-side work
+const TRANSFER_PROGRESS_SHARE = 85;
+
+// Longest value a Symbol field accepts
+const SYMBOL_MAX_LENGTH = 256;
+
+// Page size when listing spaces and environments
+const DISCOVERY_PAGE_SIZE = 100;
+
+// Upload resources expire 24 hours after creation; leave a margin before reusing one
+const UPLOAD_REUSE_WINDOW_MS = 23 * 60 * 60 * 1000;
+
+// Content fingerprints live in a single draft entry that maps them to asset IDs, so duplicate
+// checks never download binaries and uploads create no extra tags or records
+const FINGERPRINT_CONTENT_TYPE_ID = "assetUploaderFingerprints";
+const FINGERPRINT_ENTRY_ID = "asset-uploader-fingerprints";
+const FINGERPRINT_FIELD_ID = "fingerprints";
+// 128 bits is plenty to tell files apart and leaves room for over ten thousand assets in one entry
+const FINGERPRINT_KEY_LENGTH = 32;
+const FINGERPRINT_WRITE_ATTEMPTS = 5;
+
+// Fingerprint to asset ID
+type FingerprintIndex = Record<string, string>;
+
+const toFingerprintKey = (contentHash: string) => contentHash.slice(0, FINGERPRINT_KEY_LENGTH);
+
+type TimedRequestConfig = {
+  method?: string;
+  url?: string;
+  baseURL?: string;
+  data?: unknown;
+  telemetryStart?: number;
+};
+
+type LoggedResponse = {
+  status?: number;
+  headers?: Record<string, unknown>;
+  config?: TimedRequestConfig;
+  response?: { status?: number; headers?: Record<string, unknown> };
+  message?: string;
+};
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  progress: number; // 0-100 across all phases
+  bytesSent?: number;
+  totalBytes?: number;
+}
+
+export interface UploadOptions {
+  // Locales besides the default one whose title/description should be filled
+  locales?: string[];
+  // Per-locale title/description values; missing values fall back to the file name
+  fields?: LocaleFieldValues;
+  // Detected MIME type, for files the browser reports no or the wrong type for
+  contentType?: string;
+  // Title and description for this file; default-locale values in fields take precedence
+  title?: string;
+  description?: string;
+  // Upload the file as a new version of this asset instead of creating a new one
+  replaceAssetId?: string;
+  // Defaults to publishing right away
+  publishMode?: PublishMode;
+  // ISO timestamp, required when publishMode is "schedule"
+  scheduledFor?: string;
+  // Steps a previous attempt already completed, so a retry skips them
+  resumeFrom?: UploadCheckpoint;
+  // Called whenever a step is confirmed by Contentful
+  onCheckpoint?: (checkpoint: UploadCheckpoint) => void;
+  // Queue item the upload belongs to, attached to its API telemetry events
+  fileId?: string;
+  // Fingerprint from hashFile, recorded for later duplicate checks
+  contentHash?: string;
+}
+
+export interface DuplicateAsset {
+  asset: Asset;
+  matchType: DuplicateMatchType;
+}
+
+const getConnectionKey = (credentials: { spaceId: string; environmentId: string; token: string }) =>
+  JSON.stringify([credentials.spaceId, credentials.environmentId, credentials.token]);
 
 export class ContentfulService {
   private client: ClientAPI | null = null;
+  private space: Space | null = null;
   private environment: Environment | null = null;
+  private locales: LocaleInfo[] = [];
+  private contentTypes = new Map<string, ContentTypeInfo>();
+  private accessToken: string | null = null;
+  private connectedTo: string | null = null;
+  // Read once per connection; writes replace it with what they saved
+  private fingerprintIndex: Promise<FingerprintIndex> | null = null;
+  // Uploads finishing together would otherwise overwrite each other's index updates
+  private fingerprintWrites: Promise<void> = Promise.resolve();
+  // Reset hints from 429 responses by the queue item that was limited; the SDK drops headers from its errors
+  private rateLimitResets = new Map<string, number>();
+  // Requests are attributed to queued files through the upload and asset IDs they touch
+  private uploadFileIds = new Map<string, string>();
+  private assetFileIds = new Map<string, string>();
+
+  readonly telemetry = new ApiTelemetry();
 
   async connect(credentials: { spaceId: string; environmentId: string; token: string }) {
     try {
+      this.connectedTo = null;
+      this.fingerprintIndex = null;
+      this.accessToken = credentials.token;
       this.client = createClient({
         accessToken: credentials.token,
-        retryOnError: true,
-        retryLimit: 5,
-        // Use response logger to intercept rate limit errors
-        responseLogger: (response: unknown) => {
-          if (typeof response === 'object' && response !== null && 'status' in response) {
-            const responseWithStatus = response as { status: number }
-            if (responseWithStatus.status === 429) {
-              const store = useAppStore.getState();
-              store.incrementRateLimit();
-            }
+        // Callers retry with the policy from Settings; SDK retries on top would multiply the attempts
+        retryOnError: false,
+        // Stamp each request so its latency can be measured when the response arrives
+        requestLogger: (config: unknown) => {
+          if (typeof config === "object" && config !== null) {
+            (config as TimedRequestConfig).telemetryStart = performance.now();
           }
         },
-        // Use request logger for debugging
-        requestLogger: (config: unknown) => {
-          // Only log in development mode
-          if (typeof window !== 'undefined' && window.location.hostname === 'localhost') {
-            if (typeof config === 'object' && config !== null && 'method' in config && 'url' in config) {
-              const configWithMethod = config as { method: string; url: string }
-              console.debug('Contentful API Request:', configWithMethod.method?.toUpperCase(), configWithMethod.url)
-            }
+        // Called with the response on success and with the error otherwise
+        responseLogger: (responseOrError: unknown) => {
+          if (typeof responseOrError === "object" && responseOrError !== null) {
+            this.recordSdkResponse(responseOrError as LoggedResponse);
           }
         },
-        // Custom log handler to intercept SDK warnings and errors
         logHandler: (level: string, data: unknown) => {
-          const message = typeof data === "string" ? data : String(data);
-
-          // Check for rate limit related messages
-          if (this.isRateLimitMessage(message)) {
-            const store = useAppStore.getState();
-            store.incrementRateLimit();
-            return; // Don't log rate limit messages
-          }
-
-          // Log other messages normally
           if (level === "error") {
             console.error("Contentful SDK Error:", data);
           } else if (level === "warning") {
@@ -54,10 +156,22 @@ export class ContentfulService {
         },
       });
 
-      const space = await this.client.getSpace(credentials.spaceId);
-      this.environment = await space.getEnvironment(credentials.environmentId);
+      this.space = await this.client.getSpace(credentials.spaceId);
+      this.environment = await this.space.getEnvironment(credentials.environmentId);
 
-      return { success: true, environment: this.environment };
+      this.contentTypes.clear();
+
+      const localeCollection = await this.environment.getLocales();
+      this.locales = localeCollection.items.map((locale) => ({
+        code: locale.code,
+        name: locale.name,
+        default: locale.default,
+        fallbackCode: locale.fallbackCode,
+        optional: locale.optional,
+      }));
+
+      this.connectedTo = getConnectionKey(credentials);
+      return { success: true, environment: this.environment, locales: this.locales };
     } catch (error) {
       console.error("Connection failed:", error);
       return {
@@ -67,104 +181,340 @@ export class ContentfulService {
     }
   }
 
-  async uploadFile(file: File, onProgress?: (progress: number) => void, signal?: AbortSignal, tag?: Tag): Promise<{
+  // Drops the client so the token is no longer held once the app locks
+  disconnect() {
+    this.connectedTo = null;
+    this.fingerprintIndex = null;
+    this.client = null;
+    this.space = null;
+    this.environment = null;
+    this.accessToken = null;
+    this.contentTypes.clear();
+  }
+
+  // True when the last successful connect used these exact credentials
+  isConnectedTo(credentials: { spaceId: string; environmentId: string; token: string }) {
+    return this.connectedTo !== null && this.connectedTo === getConnectionKey(credentials);
+  }
+
+  // Lists the spaces a token can reach without touching the current connection
+  async discoverSpaces(token: string): Promise<{
+    success: boolean;
+    spaces?: SpaceInfo[];
+    error?: string;
+  }> {
+    try {
+      const client = createClient({ accessToken: token });
+      const items = await this.fetchAllPages((skip) => client.getSpaces({ limit: DISCOVERY_PAGE_SIZE, skip }));
+      const spaces = items.map((space) => ({ id: space.sys.id, name: space.name }));
+      return { success: true, spaces: spaces.sort((a, b) => a.name.localeCompare(b.name)) };
+    } catch (error) {
+      console.error("Space discovery failed:", error);
+      return {
+        success: false,
+        error: this.getErrorStatus(error) === 401 ? "The token is not valid" : error instanceof Error ? error.message : "Could not list spaces",
+      };
+    }
+  }
+
+  // Environments, aliases and the token's role in a space
+  async discoverEnvironments(token: string, spaceId: string): Promise<{
+    success: boolean;
+    environments?: EnvironmentInfo[];
+    aliases?: EnvironmentAliasInfo[];
+    role?: string;
+    error?: string;
+  }> {
+    try {
+      const client = createClient({ accessToken: token });
+      const space = await client.getSpace(spaceId);
+      const environments = await this.fetchAllPages((skip) => space.getEnvironments({ limit: DISCOVERY_PAGE_SIZE, skip }));
+      // The aliases endpoint takes no paging parameters; a space has only a handful of aliases
+      const [aliases, role] = await Promise.all([
+        space.getEnvironmentAliases().catch(() => null),
+        this.getTokenRole(client, space),
+      ]);
+
+      return {
+        success: true,
+        environments: environments.map((environment) => ({
+          id: environment.sys.id,
+          name: environment.name,
+          status: environment.sys.status?.sys.id ?? "ready",
+        })),
+        // Spaces without the aliases feature answer with an error
+        aliases: (aliases?.items ?? []).map((alias) => ({
+          id: alias.sys.id,
+          environmentId: alias.environment.sys.id,
+        })),
+        role,
+      };
+    } catch (error) {
+      console.error("Environment discovery failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Could not list environments",
+      };
+    }
+  }
+
+  getLocales(): LocaleInfo[] {
+    return this.locales;
+  }
+
+  getDefaultLocale(): string {
+    return this.locales.find((locale) => locale.default)?.code ?? FALLBACK_LOCALE;
+  }
+
+  async uploadFile(
+    file: File,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    tags: Tag[] = [],
+    options: UploadOptions = {}
+  ): Promise<{
     success: boolean;
     asset?: Asset;
+    scheduledActionId?: string;
+    // Set when the upload worked but its fingerprint could not be saved
+    fingerprintError?: string;
     error?: string;
+    // Set on failures that are worth retrying (rate limits, 5xx, network resets, processing timeouts)
+    retryable?: boolean;
+    // Minimum wait before retrying, from the X-Contentful-RateLimit-Reset header
+    retryAfterMs?: number;
   }> {
     if (!this.environment) {
       return { success: false, error: "Not connected to Contentful" };
     }
 
+    const publishMode = options.publishMode ?? "publish";
+    if (publishMode === "schedule" && !options.scheduledFor) {
+      return { success: false, error: "No publish date set for scheduled publishing" };
+    }
+
     try {
       // Check if cancelled before starting
       if (signal?.aborted) {
         throw new Error("Upload cancelled");
       }
 
-      onProgress?.(25);
-
-      const asset = await this.environment.createAssetFromFiles({
-        fields: {
-          title: { "en-US": file.name },
-          description: { "en-US": file.name },
-          file: {
-            "en-US": {
-              fileName: file.name,
-              contentType: file.type || "application/octet-stream",
-              file,
-            },
-          },
-        },
-      });
+      const checkpoint: UploadCheckpoint = { ...options.resumeFrom };
+      if (options.fileId) {
+        this.rateLimitResets.delete(options.fileId);
+        if (options.replaceAssetId) this.assetFileIds.set(options.replaceAssetId, options.fileId);
+        if (checkpoint.uploadId) this.uploadFileIds.set(checkpoint.uploadId, options.fileId);
+        if (checkpoint.assetId) this.assetFileIds.set(checkpoint.assetId, options.fileId);
+      }
+      let uploadId = checkpoint.uploadId;
+      const canReuseUpload =
+        uploadId !== undefined &&
+        checkpoint.uploadCreatedAt !== undefined &&
+        Date.now() - checkpoint.uploadCreatedAt < UPLOAD_REUSE_WINDOW_MS;
+
+      if (uploadId && canReuseUpload) {
+        // The binary was already confirmed by a previous attempt
+        onProgress?.({ phase: "uploading", progress: TRANSFER_PROGRESS_SHARE, bytesSent: file.size, totalBytes: file.size });
+      } else {
+        onProgress?.({ phase: "uploading", progress: 0, bytesSent: 0, totalBytes: file.size });
+
+        uploadId = await this.uploadBinary(file, signal, options.fileId, (bytesSent, totalBytes) => {
+          onProgress?.({
+            phase: "uploading",
+            progress: Math.round((bytesSent / totalBytes) * TRANSFER_PROGRESS_SHARE),
+            bytesSent,
+            totalBytes,
+          });
+        });
+        if (options.fileId) this.uploadFileIds.set(uploadId, options.fileId);
+
+        // A new upload invalidates any asset created from the previous one
+        checkpoint.uploadId = uploadId;
+        checkpoint.uploadCreatedAt = Date.now();
+        if (!options.replaceAssetId) {
+          checkpoint.assetId = undefined;
+        }
+        options.onCheckpoint?.({ ...checkpoint });
+      }
+
+      // Check if cancelled after the transfer
+      if (signal?.aborted) {
+        throw new Error("Upload cancelled");
+      }
+
+      let asset: Asset;
+      let shouldPublish = true;
+      if (options.replaceAssetId) {
+        const replaced = await this.replaceAssetFile(options.replaceAssetId, file, uploadId, options.contentType);
+        asset = replaced.asset;
+        shouldPublish = replaced.wasPublished;
+      } else if (checkpoint.assetId) {
+        asset = await this.environment.getAsset(checkpoint.assetId);
+      } else {
+        asset = await this.environment.createAsset({
+          fields: this.buildAssetFields(file, options, uploadId),
+        });
+        checkpoint.assetId = asset.sys.id;
+        if (options.fileId) this.assetFileIds.set(asset.sys.id, options.fileId);
+        options.onCheckpoint?.({ ...checkpoint });
+      }
 
       // Check if cancelled after asset creation
       if (signal?.aborted) {
         throw new Error("Upload cancelled");
       }
 
-      onProgress?.(50);
+      onProgress?.({ phase: "processing", progress: TRANSFER_PROGRESS_SHARE });
 
-      const processedAsset = await asset.processForAllLocales({
-        processingCheckWait: 1000,
-        processingCheckRetries: 30,
-      });
+      const processingOptions = { processingCheckWait: 1000, processingCheckRetries: 30 };
+      const defaultLocale = this.getDefaultLocale();
+      let processedAsset: Asset;
+      if (options.replaceAssetId) {
+        // Only the default locale carries a new upload when replacing
+        processedAsset = await asset.processForLocale(defaultLocale, processingOptions);
+      } else if (asset.fields.file?.[defaultLocale]?.url) {
+        // Already processed by a previous attempt
+        processedAsset = asset;
+      } else {
+        processedAsset = await asset.processForAllLocales(processingOptions);
+      }
 
       // Check if cancelled after processing
       if (signal?.aborted) {
         throw new Error("Upload cancelled");
       }
 
-      onProgress?.(75);
-
-      // Apply tag before publishing if provided
+      // Apply tags before publishing; they are merged with any the asset already has
       let assetToPublish = processedAsset;
-      if (tag) {
-        const tagResult = await this.applyTagToAsset(processedAsset, tag);
+      if (tags.length > 0) {
+        onProgress?.({ phase: "tagging", progress: 92 });
+        const tagResult = await this.applyTagsToAsset(processedAsset, tags);
         if (tagResult.success && tagResult.asset) {
           assetToPublish = tagResult.asset;
         } else {
-          console.warn(`Failed to apply tag to asset ${processedAsset.sys.id}:`, tagResult.error);
+          console.warn(`Failed to apply tags to asset ${processedAsset.sys.id}:`, tagResult.error);
         }
       }
 
-      const publishedAsset = await assetToPublish.publish();
+      // A replaced asset is only republished if it was published before
+      onProgress?.({ phase: "publishing", progress: 96 });
+
+      let finalAsset = assetToPublish;
+      let scheduledActionId: string | undefined;
+      if (shouldPublish && publishMode === "publish") {
+        finalAsset = await assetToPublish.publish();
+      } else if (shouldPublish && publishMode === "schedule") {
+        scheduledActionId = await this.schedulePublish(assetToPublish, options.scheduledFor!);
+      }
 
       // Check if cancelled after publishing
       if (signal?.aborted) {
         throw new Error("Upload cancelled");
       }
 
-      onProgress?.(100);
+      // A replaced asset's old fingerprint is dropped even when the new file has none.
+      // The upload itself succeeded, so a fingerprint that can't be saved is only reported.
+      let fingerprintError: string | undefined;
+      if (options.contentHash || options.replaceAssetId) {
+        try {
+          await this.recordFingerprint(finalAsset.sys.id, options.contentHash);
+        } catch (error) {
+          console.warn(`Could not save the fingerprint of asset ${finalAsset.sys.id}:`, error);
+          fingerprintError = this.describeFingerprintError(error);
+        }
+      }
+
+      onProgress?.({ phase: "publishing", progress: 100 });
 
-      return { success: true, asset: publishedAsset };
+      return { success: true, asset: finalAsset, scheduledActionId, fingerprintError };
     } catch (error) {
       // Don't log cancellation as an error
       if (signal?.aborted || (error instanceof Error && error.message === "Upload cancelled")) {
         return { success: false, error: "Upload cancelled" };
       }
 
-      // Check for rate limit errors specifically
-      if (this.isRateLimitError(error)) {
-        const store = useAppStore.getState();
-        store.incrementRateLimit();
+      if (!this.isRateLimitError(error)) {
+        console.error("Upload failed:", error);
+      }
+      return this.toFailure(error, "Upload failed", options.fileId);
+    }
+  }
 
-        return {
-          success: false,
-          error: "Rate limit exceeded. Please wait a moment and try again.",
-        };
+  // Content matches come from the fingerprint index, so no remote binary is ever downloaded.
+  // Without a hash (large files) or for assets uploaded before fingerprinting, name and size decide.
+  async findDuplicateAssets(file: File, contentHash?: string): Promise<{
+    success: boolean;
+    duplicates: DuplicateAsset[];
+    error?: string;
+  }> {
+    if (!this.environment) {
+      return { success: false, duplicates: [], error: "Not connected to Contentful" };
+    }
+
+    try {
+      // Content matches come first so they are preferred over name matches
+      const duplicates: DuplicateAsset[] = [];
+      const fingerprintedId = contentHash && (await this.loadFingerprintIndex())[toFingerprintKey(contentHash)];
+      if (fingerprintedId) {
+        // The asset may have been deleted since
+        const fingerprinted = await this.checkAssetExists(fingerprintedId);
+        if (fingerprinted.asset) duplicates.push({ asset: fingerprinted.asset, matchType: "fingerprint" });
+      }
+
+      const candidates = await this.environment.getAssets({
+        "fields.file.details.size": file.size,
+        limit: 20,
+      });
+      const matchedIds = new Set(duplicates.map((duplicate) => duplicate.asset.sys.id));
+      for (const asset of candidates.items) {
+        if (matchedIds.has(asset.sys.id)) continue;
+        const files = Object.values(asset.fields.file ?? {});
+        if (files.some((f) => f.details?.size === file.size && f.fileName === file.name)) {
+          duplicates.push({ asset, matchType: "name-size" });
+        }
       }
 
-      console.error("Upload failed:", error);
+      return { success: true, duplicates };
+    } catch (error) {
+      console.error("Duplicate check failed:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Upload failed",
+        duplicates: [],
+        error: error instanceof Error ? error.message : "Duplicate check failed",
+      };
+    }
+  }
+
+  // Looks up an asset left behind by an interrupted upload; a missing asset is not an error
+  async checkAssetExists(assetId: string): Promise<{
+    success: boolean;
+    exists: boolean;
+    asset?: Asset;
+    error?: string;
+  }> {
+    if (!this.environment) {
+      return { success: false, exists: false, error: "Not connected to Contentful" };
+    }
+
+    try {
+      const asset = await this.environment.getAsset(assetId);
+      return { success: true, exists: true, asset };
+    } catch (error) {
+      if (this.getErrorStatus(error) === 404) {
+        return { success: true, exists: false };
+      }
+
+      console.error("Asset check failed:", error);
+      return {
+        success: false,
+        exists: false,
+        error: error instanceof Error ? error.message : "Asset check failed",
       };
     }
   }
 
   getAssetUrl(asset: Asset): string {
-    const fileUrl = asset.fields.file["en-US"]?.url;
+    const fileUrl = asset.fields.file[this.getDefaultLocale()]?.url;
     if (!fileUrl) {
       throw new Error("Asset file URL not found");
     }
@@ -175,6 +525,203 @@ export class ContentfulService {
     return `https://app.contentful.com/spaces/${spaceId}/environments/${environmentId}/assets/${asset.sys.id}`;
   }
 
+  getEntryUrl(entryId: string, spaceId: string, environmentId: string): string {
+    return `https://app.contentful.com/spaces/${spaceId}/environments/${environmentId}/entries/${entryId}`;
+  }
+
+  async getContentTypes(): Promise<{
+    success: boolean;
+    contentTypes?: ContentTypeInfo[];
+    error?: string;
+  }> {
+    if (!this.environment) {
+      return { success: false, error: "Not connected to Contentful" };
+    }
+
+    try {
+      const contentTypes: ContentTypeInfo[] = [];
+      const limit = 1000;
+      let total = 0;
+      do {
+        const page = await this.environment.getContentTypes({ limit, skip: contentTypes.length });
+        contentTypes.push(
+          ...page.items.map((contentType) => ({
+            id: contentType.sys.id,
+            name: contentType.name,
+            // Disabled fields are hidden from editors, so they aren't offered here either
+            fields: contentType.fields
+              .filter((field) => !field.disabled)
+              .map((field): ContentTypeFieldInfo => ({
+                id: field.id,
+                name: field.name,
+                type: field.type,
+                linkType: field.linkType,
+                items: field.items && { type: field.items.type, linkType: field.items.linkType },
+              })),
+          }))
+        );
+        total = page.total;
+        if (page.items.length === 0) break;
+      } while (contentTypes.length < total);
+
+      contentTypes.forEach((contentType) => this.contentTypes.set(contentType.id, contentType));
+      // The fingerprint index is bookkeeping, not something to link assets from
+      return { success: true, contentTypes: contentTypes.filter((contentType) => contentType.id !== FINGERPRINT_CONTENT_TYPE_ID) };
+    } catch (error) {
+      console.error("Failed to load content types:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load content types",
+      };
+    }
+  }
+
+  // Creates an entry of the configured content type whose asset field links to the asset
+  async createLinkedEntry(
+    asset: Asset,
+    settings: EntryLinkSettings,
+    values: EntryFieldValues
+  ): Promise<{
+    success: boolean;
+    entry?: Entry;
+    error?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
+  }> {
+    if (!this.environment) {
+      return { success: false, error: "Not connected to Contentful" };
+    }
+
+    const fileId = this.assetFileIds.get(asset.sys.id);
+    if (fileId) this.rateLimitResets.delete(fileId);
+    try {
+      const contentType = await this.getContentTypeInfo(settings.contentTypeId);
+      const locale = this.getDefaultLocale();
+      const link = { sys: { type: "Link", linkType: "Asset", id: asset.sys.id } };
+
+      const assetField = contentType.fields.find((field) => field.id === settings.assetFieldId);
+      if (!assetField) {
+        throw new Error(`Content type "${contentType.name}" has no field "${settings.assetFieldId}"`);
+      }
+      const fields: Record<string, Record<string, unknown>> = {
+        [assetField.id]: { [locale]: assetField.type === "Array" ? [link] : link },
+      };
+
+      Object.entries(values).forEach(([fieldId, value]) => {
+        const field = contentType.fields.find((candidate) => candidate.id === fieldId);
+        const fieldValue = field && this.toEntryFieldValue(field, value);
+        if (fieldValue === undefined) {
+          console.warn(`Skipping mapping for field "${fieldId}" of content type "${contentType.name}"`);
+          return;
+        }
+        fields[fieldId] = { [locale]: fieldValue };
+      });
+
+      let entry = await this.environment.createEntry(contentType.id, { fields });
+      if (settings.publish) {
+        entry = await entry.publish();
+      }
+
+      return { success: true, entry };
+    } catch (error) {
+      console.error("Entry creation failed:", error);
+      return this.toFailure(error, "Entry creation failed", fileId);
+    }
+  }
+
+  // Creates a gallery entry, or appends to an existing one, whose array field links the assets in order
+  async saveGalleryEntry(
+    assetIds: string[],
+    settings: GalleryEntrySettings,
+    target: { entryId?: string; title?: string } = {}
+  ): Promise<{
+    success: boolean;
+    entry?: Entry;
+    added?: number;
+    error?: string;
+  }> {
+    if (!this.environment) {
+      return { success: false, error: "Not connected to Contentful" };
+    }
+
+    try {
+      const locale = this.getDefaultLocale();
+      const toLink = (id: string) => ({ sys: { type: "Link", linkType: "Asset", id } });
+
+      let entry: Entry;
+      let added: number;
+      if (target.entryId) {
+        entry = await this.environment.getEntry(target.entryId);
+        const contentType = await this.getContentTypeInfo(entry.sys.contentType.sys.id);
+        if (!contentType.fields.some((field) => field.id === settings.fieldId)) {
+          throw new Error(`Entry ${target.entryId} is a "${contentType.name}" and has no field "${settings.fieldId}"`);
+        }
+
+        // Assets the entry already links keep their position
+        const existing = (entry.fields[settings.fieldId]?.[locale] ?? []) as { sys: { id: string } }[];
+        const linked = new Set(existing.map((link) => link.sys.id));
+        const newIds = assetIds.filter((id) => !linked.has(id));
+        entry.fields[settings.fieldId] = {
+          ...entry.fields[settings.fieldId],
+          [locale]: [...existing, ...newIds.map(toLink)],
+        };
+        entry = await entry.update();
+        added = newIds.length;
+      } else {
+        const fields: Record<string, Record<string, unknown>> = {
+          [settings.fieldId]: { [locale]: assetIds.map(toLink) },
+        };
+        if (settings.titleFieldId && target.title) {
+          fields[settings.titleFieldId] = { [locale]: target.title.slice(0, SYMBOL_MAX_LENGTH) };
+        }
+        entry = await this.environment.createEntry(settings.contentTypeId, { fields });
+        added = assetIds.length;
+      }
+
+      if (settings.publish) {
+        entry = await entry.publish();
+      }
+
+      return { success: true, entry, added };
+    } catch (error) {
+      console.error("Gallery entry failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Gallery entry failed",
+      };
+    }
+  }
+
+  async getTags(): Promise<{
+    success: boolean;
+    tags?: Tag[];
+    error?: string;
+  }> {
+    if (!this.environment) {
+      return { success: false, error: "Not connected to Contentful" };
+    }
+
+    try {
+      const tags: Tag[] = [];
+      const limit = 1000;
+      let total = 0;
+      do {
+        const page = await this.environment.getTags({ limit, skip: tags.length });
+        tags.push(...page.items);
+        total = page.total;
+        if (page.items.length === 0) break;
+      } while (tags.length < total);
+
+      return { success: true, tags };
+    } catch (error) {
+      console.error("Failed to load tags:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load tags",
+      };
+    }
+  }
+
   async checkTagExists(tagName: string): Promise<{
     success: boolean;
     exists: boolean;
@@ -186,15 +733,8 @@ export class ContentfulService {
     }
 
     try {
-      // Generate a unique tag ID based on the name
-      const tagId = tagName
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, "-")
-        .replace(/-+/g, "-")
-        .replace(/^-|-$/g, "");
-
       // Try to get the tag
-      const tag = await this.environment.getTag(tagId);
+      const tag = await this.environment.getTag(this.toTagId(tagName));
       return { success: true, exists: true, tag };
     } catch (error) {
       // If tag doesn't exist, Contentful will throw an error
@@ -211,42 +751,44 @@ export class ContentfulService {
     }
   }
 
-  async findOrCreatePrivateTag(tagName: string): Promise<{
+  async findOrCreateTag(
+    tagName: string,
+    visibility: TagVisibility = "private",
+    existingTags: Tag[] = []
+  ): Promise<{
     success: boolean;
     tag?: Tag;
     error?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
   }> {
     if (!this.environment) {
       return { success: false, error: "Not connected to Contentful" };
     }
 
     try {
-      // First check if tag already exists
+      // Tags picked from the environment may have IDs that don't follow our naming scheme
+      const name = tagName.trim().toLowerCase();
+      const known = existingTags.find((tag) => tag.name.toLowerCase() === name || tag.sys.id === tagName.trim());
+      if (known) {
+        return { success: true, tag: known };
+      }
+
       const checkResult = await this.checkTagExists(tagName);
       if (checkResult.success && checkResult.exists && checkResult.tag) {
         return { success: true, tag: checkResult.tag };
       }
 
-      // Generate a unique tag ID based on the name
-      const tagId = tagName
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, "-")
-        .replace(/-+/g, "-")
-        .replace(/^-|-$/g, "");
-
-      const tag = await this.environment.createTag(tagId, tagName);
+      const tag = await this.environment.createTag(this.toTagId(tagName), tagName.trim(), visibility);
 
       return { success: true, tag };
     } catch (error) {
       console.error("Tag creation failed:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Tag creation failed",
-      };
+      return this.toFailure(error, "Tag creation failed");
     }
   }
 
-  async applyTagToAsset(asset: Asset, tag: Tag): Promise<{
+  async applyTagsToAsset(asset: Asset, tags: Tag[]): Promise<{
     success: boolean;
     asset?: Asset;
     error?: string;
@@ -256,17 +798,25 @@ export class ContentfulService {
     }
 
     try {
-      // Update the asset with the tag
-      asset.metadata = {
-        tags: [
-          {
-            sys: {
-              type: "Link",
-              linkType: "Tag",
-              id: tag.sys.id,
-            },
+      // Keep the asset's existing tags and add the new ones
+      const existing = asset.metadata?.tags ?? [];
+      const existingIds = new Set(existing.map((link) => link.sys.id));
+      const added = tags
+        .filter((tag) => !existingIds.has(tag.sys.id))
+        .map((tag) => ({
+          sys: {
+            type: "Link" as const,
+            linkType: "Tag" as const,
+            id: tag.sys.id,
           },
-        ],
+        }));
+      if (added.length === 0) {
+        return { success: true, asset };
+      }
+
+      asset.metadata = {
+        ...asset.metadata,
+        tags: [...existing, ...added],
       };
 
       const updatedAsset = await asset.update();
@@ -282,30 +832,435 @@ export class ContentfulService {
     }
   }
 
-  private isRateLimitMessage(message: string): boolean {
-    const rateLimitKeywords = [
-      "rate limit",
-      "rate-limit",
-      "too many requests",
-      "429",
-      "quota exceeded",
-      "throttle",
-      "retry after",
-      "retry-after",
-      "rate limit exceeded",
-      "rate limit hit",
-      "rate limit reached",
-      "api rate limit",
-      "request limit",
-      "request quota",
-      "throttled",
-      "rate limiting",
-      "contentful rate limit",
-      "management api rate limit",
-    ];
+  private readFingerprints(entry: Entry | null): FingerprintIndex {
+    const value: unknown = entry?.fields[FINGERPRINT_FIELD_ID]?.[this.getDefaultLocale()];
+    return value && typeof value === "object" ? { ...(value as FingerprintIndex) } : {};
+  }
 
-    const lowerMessage = message.toLowerCase();
-    return rateLimitKeywords.some((keyword) => lowerMessage.includes(keyword));
+  private async getFingerprintEntry(): Promise<Entry | null> {
+    if (!this.environment) {
+      throw new Error("Not connected to Contentful");
+    }
+    try {
+      return await this.environment.getEntry(FINGERPRINT_ENTRY_ID);
+    } catch (error) {
+      if (this.getErrorStatus(error) === 404) return null;
+      throw error;
+    }
+  }
+
+  private loadFingerprintIndex(): Promise<FingerprintIndex> {
+    if (!this.fingerprintIndex) {
+      const index = this.getFingerprintEntry().then((entry) => this.readFingerprints(entry));
+      // A failed read is tried again by the next check
+      index.catch(() => {
+        if (this.fingerprintIndex === index) this.fingerprintIndex = null;
+      });
+      this.fingerprintIndex = index;
+    }
+    return this.fingerprintIndex;
+  }
+
+  // Created on first use; a conflict means another upload or tab got there first
+  private async createFingerprintEntry(): Promise<Entry> {
+    if (!this.environment) {
+      throw new Error("Not connected to Contentful");
+    }
+
+    try {
+      await this.environment.getContentType(FINGERPRINT_CONTENT_TYPE_ID);
+    } catch (error) {
+      if (this.getErrorStatus(error) !== 404) throw error;
+      try {
+        const contentType = await this.environment.createContentTypeWithId(FINGERPRINT_CONTENT_TYPE_ID, {
+          name: "Asset Uploader Fingerprints",
+          description: "Content fingerprints of uploaded assets, used by the asset uploader to find duplicates",
+          fields: [{ id: FINGERPRINT_FIELD_ID, name: "Fingerprints", type: "Object", localized: false, required: false }],
+        });
+        await contentType.publish();
+      } catch (createError) {
+        if (this.getErrorStatus(createError) !== 409) throw createError;
+      }
+    }
+
+    try {
+      return await this.environment.createEntryWithId(FINGERPRINT_CONTENT_TYPE_ID, FINGERPRINT_ENTRY_ID, {
+        fields: { [FINGERPRINT_FIELD_ID]: { [this.getDefaultLocale()]: {} } },
+      });
+    } catch (error) {
+      if (this.getErrorStatus(error) !== 409) throw error;
+      return this.environment.getEntry(FINGERPRINT_ENTRY_ID);
+    }
+  }
+
+  // Points the fingerprint at the asset and drops any the asset had before its file was replaced
+  private recordFingerprint(assetId: string, contentHash?: string): Promise<void> {
+    const write = this.fingerprintWrites.then(async () => {
+      for (let attempt = 1; ; attempt++) {
+        let entry = await this.getFingerprintEntry();
+        if (!entry) {
+          if (!contentHash) return;
+          entry = await this.createFingerprintEntry();
+        }
+
+        const saved = this.readFingerprints(entry);
+        const index = Object.fromEntries(Object.entries(saved).filter(([, id]) => id !== assetId));
+        if (contentHash) index[toFingerprintKey(contentHash)] = assetId;
+        if (JSON.stringify(index) === JSON.stringify(saved)) {
+          this.fingerprintIndex = Promise.resolve(index);
+          return;
+        }
+
+        entry.fields[FINGERPRINT_FIELD_ID] = { [this.getDefaultLocale()]: index };
+        try {
+          await entry.update();
+          this.fingerprintIndex = Promise.resolve(index);
+          return;
+        } catch (error) {
+          // Another tab or client saved the index in between; read it again and reapply
+          const status = this.getErrorStatus(error);
+          if ((status !== 409 && status !== 429) || attempt >= FINGERPRINT_WRITE_ATTEMPTS) throw error;
+          if (status === 429) await waitForRetry(attempt * 1000);
+        }
+      }
+    });
+    this.fingerprintWrites = write.catch(() => undefined);
+    return write;
+  }
+
+  private describeFingerprintError(error: unknown): string {
+    const status = this.getErrorStatus(error);
+    if (status === 401 || status === 403) {
+      return "the token may not create content types or entries";
+    }
+    if (status === 422) {
+      return "the fingerprint index is full or invalid";
+    }
+    return error instanceof Error ? error.name : "unknown error";
+  }
+
+  // Follows skip until the collection's total is reached
+  private async fetchAllPages<T>(fetchPage: (skip: number) => Promise<{ items: T[]; total: number }>): Promise<T[]> {
+    const items: T[] = [];
+    let total = Infinity;
+    while (items.length < total) {
+      const page = await fetchPage(items.length);
+      total = page.total;
+      items.push(...page.items);
+      if (page.items.length === 0) break;
+    }
+    return items;
+  }
+
+  // Only admins can list memberships, so a refusal means the token belongs to a non-admin member
+  private async getTokenRole(client: ClientAPI, space: Space): Promise<string | undefined> {
+    try {
+      const user = await client.getCurrentUser();
+      const memberships = await space.getSpaceMemberships({ "sys.user.sys.id": user.sys.id });
+      const membership = memberships.items.find((item) => item.user.sys.id === user.sys.id);
+      if (!membership) return undefined;
+      if (membership.admin) return "Admin";
+
+      const roles = await this.fetchAllPages((skip) => space.getRoles({ limit: DISCOVERY_PAGE_SIZE, skip }));
+      const names = membership.roles.map(
+        (link) => roles.find((role) => role.sys.id === link.sys.id)?.name ?? link.sys.id
+      );
+      return names.length > 0 ? names.join(", ") : "Member";
+    } catch (error) {
+      const status = this.getErrorStatus(error);
+      return status === 403 || status === 401 ? "Member (not an admin)" : undefined;
+    }
+  }
+
+  private async getContentTypeInfo(contentTypeId: string): Promise<ContentTypeInfo> {
+    const cached = this.contentTypes.get(contentTypeId);
+    if (cached) return cached;
+
+    const result = await this.getContentTypes();
+    const contentType = result.contentTypes?.find((candidate) => candidate.id === contentTypeId);
+    if (!contentType) {
+      throw new Error(result.error ?? `Content type "${contentTypeId}" was not found`);
+    }
+    return contentType;
+  }
+
+  // Text goes into Symbol/Text fields and lists into Array-of-Symbol fields; other types are skipped
+  private toEntryFieldValue(field: ContentTypeFieldInfo, value: string | string[]): unknown {
+    const text = Array.isArray(value) ? value.join(", ") : value;
+    if (field.type === "Symbol") return text.slice(0, SYMBOL_MAX_LENGTH);
+    if (field.type === "Text") return text;
+    if (field.type === "Array" && field.items?.type === "Symbol") {
+      const list = Array.isArray(value) ? value : value.split(",").map((item) => item.trim()).filter(Boolean);
+      return list.map((item) => item.slice(0, SYMBOL_MAX_LENGTH));
+    }
+    return undefined;
+  }
+
+  private toTagId(tagName: string): string {
+    return tagName
+      .toLowerCase()
+      .replace(/[^a-z0-9-]/g, "-")
+      .replace(/-+/g, "-")
+      .replace(/^-|-$/g, "");
+  }
+
+  private async uploadBinary(
+    file: File,
+    signal: AbortSignal | undefined,
+    fileId: string | undefined,
+    onBytes: (bytesSent: number, totalBytes: number) => void
+  ): Promise<string> {
+    if (!this.environment || !this.accessToken) {
+      throw new Error("Not connected to Contentful");
+    }
+
+    const spaceId = this.environment.sys.space.sys.id;
+    const environmentId = this.environment.sys.id;
+    const url = `${UPLOAD_API_URL}/spaces/${spaceId}/environments/${environmentId}/uploads`;
+    const start = performance.now();
+
+    // Posting to the upload endpoint directly gives us transfer progress events the SDK doesn't expose
+    try {
+      const response = await axios.post<{ sys: { id: string } }>(url, file, {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          "Content-Type": "application/octet-stream",
+        },
+        signal,
+        onUploadProgress: (event) => onBytes(event.loaded, event.total ?? file.size),
+      });
+
+      this.telemetry.emit({
+        method: "POST",
+        category: "upload",
+        url,
+        status: response.status,
+        latencyMs: performance.now() - start,
+        rateLimit: parseRateLimitHeaders(response.headers as Record<string, unknown>),
+        fileId,
+      });
+
+      return response.data.sys.id;
+    } catch (error) {
+      const failed = error as LoggedResponse;
+      this.telemetry.emit({
+        method: "POST",
+        category: "upload",
+        url,
+        status: failed.response?.status,
+        latencyMs: performance.now() - start,
+        rateLimit: parseRateLimitHeaders(failed.response?.headers),
+        fileId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private recordSdkResponse(responseOrError: LoggedResponse): void {
+    const config = responseOrError.config ?? {};
+    // Errors carry the response one level down; a missing response means the request never completed
+    const response = "response" in responseOrError || responseOrError instanceof Error
+      ? responseOrError.response
+      : responseOrError;
+    const url = `${config.baseURL ?? ""}${config.url ?? ""}`;
+    const status = response?.status;
+    const rateLimit = parseRateLimitHeaders(response?.headers);
+
+    const fileId = this.resolveFileId(url, config.data);
+    if (status === 429 && rateLimit.reset !== undefined && fileId) {
+      this.rateLimitResets.set(fileId, rateLimit.reset * 1000);
+    }
+
+    this.telemetry.emit({
+      method: (config.method ?? "get").toUpperCase(),
+      category: categorizeUrl(url),
+      url,
+      status,
+      latencyMs: config.telemetryStart !== undefined ? performance.now() - config.telemetryStart : undefined,
+      rateLimit,
+      fileId,
+      error: status !== undefined && status < 400 ? undefined : responseOrError.message,
+    });
+  }
+
+  private resolveFileId(url: string, data: unknown): string | undefined {
+    const assetMatch = url.match(/\/assets\/([^/?]+)/);
+    if (assetMatch && this.assetFileIds.has(assetMatch[1])) {
+      return this.assetFileIds.get(assetMatch[1]);
+    }
+
+    // Asset creation has no asset ID yet, but its body links the upload; linked entries link the asset
+    if (typeof data === "string") {
+      for (const [uploadId, fileId] of this.uploadFileIds) {
+        if (data.includes(uploadId)) return fileId;
+      }
+      for (const [assetId, fileId] of this.assetFileIds) {
+        if (data.includes(assetId)) return fileId;
+      }
+    }
+
+    return undefined;
+  }
+
+  private buildAssetFields(file: File, options: UploadOptions, uploadId: string) {
+    const defaultLocale = this.getDefaultLocale();
+    const knownLocales = new Set(this.locales.map((locale) => locale.code));
+    const extraLocales = (options.locales ?? []).filter(
+      (code) => code !== defaultLocale && knownLocales.has(code)
+    );
+
+    const defaultTitle = options.fields?.[defaultLocale]?.title?.trim() || options.title?.trim() || file.name;
+    const defaultDescription =
+      options.fields?.[defaultLocale]?.description?.trim() || options.description?.trim() || file.name;
+
+    const title: Record<string, string> = { [defaultLocale]: defaultTitle };
+    const description: Record<string, string> = { [defaultLocale]: defaultDescription };
+    for (const code of extraLocales) {
+      title[code] = options.fields?.[code]?.title?.trim() || defaultTitle;
+      description[code] = options.fields?.[code]?.description?.trim() || defaultDescription;
+    }
+
+    // The binary is only attached to the default locale; other locales resolve it through fallbacks
+    return {
+      title,
+      description,
+      file: {
+        [defaultLocale]: {
+          fileName: file.name,
+          contentType: options.contentType || file.type || "application/octet-stream",
+          uploadFrom: {
+            sys: { type: "Link", linkType: "Upload", id: uploadId },
+          },
+        },
+      },
+    };
+  }
+
+  private async replaceAssetFile(
+    assetId: string,
+    file: File,
+    uploadId: string,
+    contentType?: string
+  ): Promise<{ asset: Asset; wasPublished: boolean }> {
+    if (!this.environment) {
+      throw new Error("Not connected to Contentful");
+    }
+
+    const existing = await this.environment.getAsset(assetId);
+    if (existing.isArchived()) {
+      throw new Error(`Asset ${assetId} is archived and can't be replaced`);
+    }
+    const wasPublished = existing.isPublished() || existing.isUpdated();
+    const defaultLocale = this.getDefaultLocale();
+
+    // Only the binary changes; title, description and tags stay as they are
+    existing.fields.file = {
+      ...existing.fields.file,
+      [defaultLocale]: {
+        fileName: file.name,
+        contentType: contentType || file.type || "application/octet-stream",
+        uploadFrom: {
+          sys: { type: "Link", linkType: "Upload", id: uploadId },
+        },
+      },
+    };
+
+    const asset = await existing.update();
+    return { asset, wasPublished };
+  }
+
+  private async schedulePublish(asset: Asset, scheduledFor: string): Promise<string> {
+    if (!this.space || !this.environment) {
+      throw new Error("Not connected to Contentful");
+    }
+
+    const scheduledAction = await this.space.createScheduledAction({
+      entity: { sys: { type: "Link", linkType: "Asset", id: asset.sys.id } },
+      environment: { sys: { type: "Link", linkType: "Environment", id: this.environment.sys.id } },
+      action: "publish",
+      scheduledFor: {
+        datetime: scheduledFor,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
+    });
+
+    return scheduledAction.sys.id;
+  }
+
+  private getErrorStatus(error: unknown): number | undefined {
+    if (typeof error !== "object" || error === null) return undefined;
+
+    // Axios errors (direct uploads) carry the response
+    const errorWithResponse = error as { response?: { status?: number } };
+    if (typeof errorWithResponse.response?.status === "number") {
+      return errorWithResponse.response.status;
+    }
+
+    // SDK errors serialise the response details into the message
+    if (error instanceof Error) {
+      try {
+        const details = JSON.parse(error.message) as { status?: number };
+        if (typeof details.status === "number") return details.status;
+      } catch {
+        // Not a serialised SDK error
+      }
+      const statusFromName = parseInt(error.name, 10);
+      if (!Number.isNaN(statusFromName)) return statusFromName;
+    }
+
+    return undefined;
+  }
+
+  private isTransientError(error: unknown): boolean {
+    if (error instanceof Error && error.name === "AssetProcessingTimeout") {
+      return true;
+    }
+
+    const status = this.getErrorStatus(error);
+    if (status !== undefined) {
+      return status === 429 || (status >= 500 && status < 600);
+    }
+
+    // No response at all means the connection dropped or timed out
+    const code = typeof error === "object" && error !== null && "code" in error ? String(error.code) : "";
+    const message = error instanceof Error ? error.message.toLowerCase() : "";
+    return (
+      ["ECONNRESET", "ECONNABORTED", "ETIMEDOUT", "ERR_NETWORK"].includes(code) ||
+      message.includes("network error") ||
+      message.includes("failed to fetch")
+    );
+  }
+
+  // Failed results carry what the caller's retry policy needs
+  private toFailure(error: unknown, fallback: string, fileId?: string) {
+    if (this.isRateLimitError(error)) {
+      return {
+        success: false,
+        error: "Rate limit exceeded. Please wait a moment and try again.",
+        retryable: true,
+        retryAfterMs: this.getRateLimitResetMs(error) ?? this.takeRateLimitReset(fileId),
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : fallback,
+      retryable: this.isTransientError(error),
+    };
+  }
+
+  private takeRateLimitReset(fileId: string | undefined): number | undefined {
+    if (!fileId) return undefined;
+    const resetMs = this.rateLimitResets.get(fileId);
+    this.rateLimitResets.delete(fileId);
+    return resetMs;
+  }
+
+  private getRateLimitResetMs(error: unknown): number | undefined {
+    if (typeof error !== "object" || error === null) return undefined;
+
+    const reset = parseRateLimitHeaders((error as LoggedResponse).response?.headers).reset;
+    return reset !== undefined ? reset * 1000 : undefined;
   }
 
   private isRateLimitError(error: unknown): boolean {
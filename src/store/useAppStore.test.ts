@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest'
+import { useAppStore } from './useAppStore'
+import type { TokenStorageMode } from '../utils/tokenVault'
+
+// The store only persists when it finds localStorage, so one has to exist before it is imported
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>()
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  } as Storage
+  return items
+})
+
+const persistedFor = (mode: TokenStorageMode) => {
+  useAppStore.setState({
+    tokenStorage: { mode, autoLockMinutes: 15 },
+    credentials: { spaceId: 'space', environmentId: 'master', token: 'CFPAT-active-secret' },
+    connectionProfiles: [
+      { id: 'default', name: 'Default', credentials: { spaceId: 'space', environmentId: 'master', token: 'CFPAT-active-secret' } },
+      { id: 'staging', name: 'Staging', credentials: { spaceId: 'space', environmentId: 'staging', token: 'CFPAT-staging-secret' } }
+    ],
+    encryptedTokens: { salt: 'c2FsdA==', iv: 'aXY=', data: 'Y2lwaGVydGV4dA==', iterations: 310000 }
+  })
+  return storage.get('contentful-uploader-storage') ?? ''
+}
+
+describe('persisted state', () => {
+  it.each<TokenStorageMode>(['encrypted', 'session'])('never contains plaintext tokens in %s mode', (mode) => {
+    const persisted = persistedFor(mode)
+    expect(persisted).not.toContain('CFPAT-')
+    expect(persisted).toContain('"spaceId":"space"')
+  })
+
+  it('keeps the ciphertext only in encrypted mode', () => {
+    expect(persistedFor('encrypted')).toContain('Y2lwaGVydGV4dA==')
+    expect(persistedFor('session')).not.toContain('Y2lwaGVydGV4dA==')
+  })
+
+  it('stores the tokens in plain mode', () => {
+    const persisted = persistedFor('plain')
+    expect(persisted).toContain('CFPAT-active-secret')
+    expect(persisted).toContain('CFPAT-staging-secret')
+  })
+})
@@ -1,40 +1,211 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { getPreferredTheme } from '../utils/theme'
+import type { ApiEvent } from '../services/apiTelemetry'
+import { applyManifestEntry, findManifestEntry, type Manifest } from '../utils/manifest'
+import { DEFAULT_NAMING_RULES, type NamingRules } from '../utils/naming'
+import { DEFAULT_VALIDATION_PROFILE, type ValidationProfile } from '../utils/validation'
+import { DEFAULT_IMAGE_OPTIMIZATION, getFileToUpload, type ImageOptimizationSettings } from '../utils/imageOptimizer'
+import type { EmbeddedMetadata } from '../utils/imageMetadata'
+import {
+  DEFAULT_ENTRY_LINK_SETTINGS,
+  DEFAULT_GALLERY_ENTRY_SETTINGS,
+  type EntryLinkSettings,
+  type GalleryEntrySettings
+} from '../utils/entryLinking'
+import { DEFAULT_EXPORT_COLUMNS, type ExportColumn } from '../utils/sessionExport'
+import { DEFAULT_CONNECTION_PROFILE, pickProfilePreferences, stripProfileTokens, type ConnectionProfile } from '../utils/connectionProfiles'
+import { DEFAULT_TOKEN_STORAGE, type EncryptedTokens, type TokenStorageSettings } from '../utils/tokenVault'
+
+// Only the most recent API events are kept in memory
+const MAX_API_EVENTS = 500
+
+// Trims tag names and drops empty and case-insensitive duplicates
+const normalizeTagNames = (names: string[]) => {
+  const seen = new Set<string>()
+  return names
+    .map(name => name.trim())
+    .filter(name => {
+      const key = name.toLowerCase()
+      if (!name || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export type PublishMode = 'publish' | 'draft' | 'schedule'
+export type UploadPhase = 'uploading' | 'processing' | 'tagging' | 'publishing' | 'linking'
+// Steps of an upload that Contentful has already confirmed
+export interface UploadCheckpoint {
+  uploadId?: string
+  uploadCreatedAt?: number
+  assetId?: string
+}
+
+export type DuplicateMatchType = 'fingerprint' | 'name-size'
+export type DuplicateAction = 'skip' | 'upload' | 'replace'
+
+export type TagVisibility = 'private' | 'public'
+
+export interface TagInfo {
+  id: string
+  name: string
+  visibility: TagVisibility
+}
+
+export interface ContentTypeFieldInfo {
+  id: string
+  name: string
+  type: string // Symbol, Text, Link, Array, ...
+  linkType?: string // for Link fields
+  items?: { type: string; linkType?: string } // for Array fields
+}
+
+export interface ContentTypeInfo {
+  id: string
+  name: string
+  fields: ContentTypeFieldInfo[]
+}
+
+export interface DuplicateMatch {
+  assetId: string
+  matchType: DuplicateMatchType
+  assetUrl?: string
+  contentfulUrl: string
+}
 
 export interface UploadFile {
   id: string
   file: File
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'duplicate' | 'skipped' | 'rejected'
   progress: number
+  phase?: UploadPhase
+  bytesSent?: number
   error?: string
   assetId?: string
   assetUrl?: string
   contentfulUrl?: string
   startTime?: number
   endTime?: number
-  estimatedTimeRemaining?: number
-  uploadSpeed?: number // bytes per second
+  estimatedTimeRemaining?: number // ms until the binary transfer finishes
+  uploadSpeed?: number // bytes per second during the binary transfer
+  contentHash?: string // Fingerprint of the file contents, see hashFile
+  duplicateOf?: DuplicateMatch
+  duplicateAction?: DuplicateAction
+  targetAssetId?: string // existing asset whose file is replaced
+  publishMode?: PublishMode
+  scheduledFor?: string // ISO timestamp of the scheduled publish
+  scheduledActionId?: string
+  checkpoint?: UploadCheckpoint
+  retryCount?: number // automatic retries so far
+  lastError?: string // error that triggered the latest retry
+  nextRetryAt?: number
+  tags?: string[] // tag names applied to this file on top of the session tags
+  folderPath?: string // folders the file was dropped in, relative to the drop
+  title?: string // overrides the default-locale title
+  description?: string // overrides the default-locale description
+  altText?: string
+  localeFields?: LocaleFieldValues // per-file values that override the session's locale fields
+  optimization?: 'running' | 'done' | 'failed'
+  optimizationError?: string
+  optimizedFile?: File // resized/re-encoded copy, uploaded instead of the original
+  useOriginal?: boolean // upload the original even though an optimised copy exists
+  contentType?: string // detected from the file's signature, falling back to the browser's type
+  typeMismatch?: boolean // the browser's type disagrees with the file's contents
+  credit?: string // creator/copyright line appended to the description
+  embeddedMetadata?: EmbeddedMetadata // values read from the file's EXIF/IPTC/XMP blocks
+  entryId?: string // entry created to link the asset
+  entryUrl?: string
+  entryError?: string // the asset uploaded but its entry could not be created
 }
 
+// A file being queued, with any values already known for it
+export type NewUploadFile = Pick<UploadFile, 'file'> &
+  Partial<Pick<UploadFile, 'tags' | 'folderPath' | 'title' | 'description' | 'altText' | 'localeFields' | 'contentType' | 'typeMismatch' | 'credit' | 'embeddedMetadata'>> & {
+    rejectionReason?: string // queued as rejected instead of pending
+  }
+
 export interface Credentials {
   spaceId: string
   environmentId: string
   token: string
 }
 
+// What a management token can reach, listed so space and environment can be picked instead of typed
+export interface SpaceInfo {
+  id: string
+  name: string
+}
+
+export interface EnvironmentInfo {
+  id: string
+  name: string
+  status: string // ready, queued, failed
+}
+
+export interface EnvironmentAliasInfo {
+  id: string
+  environmentId: string // environment the alias points to
+}
+
+export interface LocaleInfo {
+  code: string
+  name: string
+  default: boolean
+  fallbackCode: string | null
+  optional: boolean
+}
+
+export type LocaleFieldValues = Record<string, { title?: string; description?: string }>
+
 interface AppState {
   // Credentials
   credentials: Credentials
   setCredentials: (creds: Partial<Credentials>) => void
   clearCredentials: () => void
   
+  // Named connection profiles; the active one's values are the live credentials and preferences
+  connectionProfiles: ConnectionProfile[]
+  activeConnectionProfileId: string
+  switchConnectionProfile: (id: string) => void
+  addConnectionProfile: () => void
+  renameConnectionProfile: (id: string, name: string) => void
+  removeConnectionProfile: (id: string) => void
+  
+  // Token storage; tokens are blank while locked
+  tokenStorage: TokenStorageSettings
+  setTokenStorage: (settings: Partial<TokenStorageSettings>) => void
+  encryptedTokens?: EncryptedTokens
+  setEncryptedTokens: (payload?: EncryptedTokens) => void
+  tokensLocked: boolean
+  lockTokens: () => void
+  unlockTokens: (tokens: Record<string, string>) => void
+  
+  // Locales
+  locales: LocaleInfo[]
+  setLocales: (locales: LocaleInfo[]) => void
+  extraLocales: string[]
+  setExtraLocales: (codes: string[]) => void
+  localeFieldValues: LocaleFieldValues
+  setLocaleFieldValue: (code: string, values: { title?: string; description?: string }) => void
+  
   // Files
   files: UploadFile[]
-  addFiles: (files: File[]) => void
+  addFiles: (files: NewUploadFile[]) => void
+  restoreFiles: (files: UploadFile[]) => void
   removeFile: (id: string) => void
   clearFiles: () => void
   updateFileStatus: (id: string, updates: Partial<UploadFile>) => void
+  resolveDuplicate: (id: string, action: DuplicateAction) => void
+  retryFile: (id: string) => void
+  setTargetAsset: (id: string, assetId?: string) => void
+  setFileTags: (id: string, tags: string[]) => void
+  setFileText: (id: string, changes: Partial<Pick<UploadFile, 'title' | 'description' | 'credit'>>) => void
+  setUseOriginal: (id: string, useOriginal: boolean) => void
+  
+  // Metadata manifest
+  manifest?: Manifest
+  setManifest: (manifest?: Manifest) => void
   
   // Upload state
   isUploading: boolean
@@ -43,14 +214,66 @@ interface AppState {
   // Settings
   parallelCount: number
   setParallelCount: (count: number) => void
+  adaptiveConcurrency: boolean
+  setAdaptiveConcurrency: (enabled: boolean) => void
+  currentConcurrency?: number // live limit during a session
+  setCurrentConcurrency: (count?: number) => void
+  checkDuplicates: boolean
+  setCheckDuplicates: (enabled: boolean) => void
+  retryMaxAttempts: number
+  setRetryMaxAttempts: (attempts: number) => void
+  retryBaseDelayMs: number
+  setRetryBaseDelayMs: (delay: number) => void
+  publishMode: PublishMode
+  setPublishMode: (mode: PublishMode) => void
+  scheduledPublishAt?: string // ISO timestamp
+  setScheduledPublishAt: (time?: string) => void
   
   // Tagging
   enableTagging: boolean
   setEnableTagging: (enabled: boolean) => void
-  tagName: string
-  setTagName: (name: string) => void
+  tagNames: string[]
+  setTagNames: (names: string[]) => void
+  newTagVisibility: TagVisibility
+  setNewTagVisibility: (visibility: TagVisibility) => void
+  availableTags: TagInfo[] // tags that already exist in the environment
+  setAvailableTags: (tags: TagInfo[]) => void
   autoTagFromFolder: boolean
   setAutoTagFromFolder: (enabled: boolean) => void
+  folderTagLevels: number[] // 1-based folder depths turned into tags; empty for all
+  setFolderTagLevels: (levels: number[]) => void
+  folderTitlePrefix: boolean
+  setFolderTitlePrefix: (enabled: boolean) => void
+  readEmbeddedMetadata: boolean // map EXIF/IPTC/XMP values onto files as they're added
+  setReadEmbeddedMetadata: (enabled: boolean) => void
+  
+  // Validation
+  validationProfiles: ValidationProfile[]
+  activeValidationProfileId: string
+  setActiveValidationProfile: (id: string) => void
+  addValidationProfile: () => void
+  updateValidationProfile: (id: string, changes: Partial<Omit<ValidationProfile, 'id'>>) => void
+  removeValidationProfile: (id: string) => void
+  
+  // Image optimisation
+  imageOptimization: ImageOptimizationSettings
+  setImageOptimization: (settings: Partial<ImageOptimizationSettings>) => void
+  
+  // Title/description generation for files without explicit values
+  namingRules: NamingRules
+  setNamingRules: (rules: Partial<NamingRules>) => void
+  
+  // Entries created for each uploaded asset
+  entryLinking: EntryLinkSettings
+  setEntryLinking: (settings: Partial<EntryLinkSettings>) => void
+  galleryEntry: GalleryEntrySettings
+  setGalleryEntry: (settings: Partial<GalleryEntrySettings>) => void
+  contentTypes: ContentTypeInfo[] // content types in the environment, loaded on demand
+  setContentTypes: (contentTypes: ContentTypeInfo[]) => void
+  
+  // Columns included when exporting the session
+  exportColumns: ExportColumn[]
+  setExportColumns: (columns: ExportColumn[]) => void
   
   // UI state
   isConnected: boolean
@@ -59,14 +282,20 @@ interface AppState {
   setIsConnecting: (connecting: boolean) => void
   showSettings: boolean
   setShowSettings: (show: boolean) => void
+  showHistory: boolean
+  setShowHistory: (show: boolean) => void
   isDarkMode: boolean
   setIsDarkMode: (dark: boolean) => void
   
   // Rate limiting tracking
   rateLimitCount: number
-  incrementRateLimit: () => void
   resetRateLimitCount: () => void
   
+  // API telemetry
+  apiEvents: ApiEvent[]
+  recordApiEvent: (event: ApiEvent) => void
+  clearApiEvents: () => void
+  
   // Upload timing
   uploadStartTime?: number
   uploadEndTime?: number
@@ -78,6 +307,29 @@ interface AppState {
   getSessionDuration: () => number | null
 }
 
+// Stores the live credentials and preferences back into the active profile
+const saveActiveProfile = (state: AppState): ConnectionProfile[] =>
+  state.connectionProfiles.map(p =>
+    p.id === state.activeConnectionProfileId
+      ? { ...p, credentials: state.credentials, preferences: pickProfilePreferences(state) }
+      : p
+  )
+
+// Values that belong to the previous space/environment
+const CONNECTION_RESET = {
+  locales: [],
+  availableTags: [],
+  contentTypes: [],
+  isConnected: false
+}
+
+const applyProfile = (profile: ConnectionProfile) => ({
+  ...profile.preferences,
+  ...CONNECTION_RESET,
+  credentials: profile.credentials,
+  activeConnectionProfileId: profile.id
+})
+
 export const useAppStore = create<AppState>()(
   persist(
     (set, get): AppState => ({
@@ -88,32 +340,112 @@ export const useAppStore = create<AppState>()(
         token: ''
       },
       setCredentials: (creds) => set((state) => ({
+        ...CONNECTION_RESET,
         credentials: { ...state.credentials, ...creds }
       })),
       clearCredentials: () => set({
-        credentials: { spaceId: '', environmentId: '', token: '' }
+        credentials: { spaceId: '', environmentId: '', token: '' },
+        locales: [],
+        availableTags: [],
+        contentTypes: [],
+        extraLocales: [],
+        localeFieldValues: {}
+      }),
+      
+      connectionProfiles: [DEFAULT_CONNECTION_PROFILE],
+      activeConnectionProfileId: DEFAULT_CONNECTION_PROFILE.id,
+      switchConnectionProfile: (id) => set((state) => {
+        const profile = state.connectionProfiles.find(p => p.id === id)
+        if (!profile || id === state.activeConnectionProfileId) return {}
+        return { ...applyProfile(profile), connectionProfiles: saveActiveProfile(state) }
+      }),
+      // New profiles start with the current preferences and no credentials
+      addConnectionProfile: () => set((state) => {
+        const profile: ConnectionProfile = {
+          id: `connection-${Date.now()}`,
+          name: `Profile ${state.connectionProfiles.length + 1}`,
+          credentials: { spaceId: '', environmentId: '', token: '' },
+          preferences: pickProfilePreferences(state)
+        }
+        return { ...applyProfile(profile), connectionProfiles: [...saveActiveProfile(state), profile] }
+      }),
+      renameConnectionProfile: (id, name) => set((state) => ({
+        connectionProfiles: state.connectionProfiles.map(p => p.id === id ? { ...p, name } : p)
+      })),
+      // The last profile can't be removed
+      removeConnectionProfile: (id) => set((state) => {
+        const remaining = state.connectionProfiles.filter(p => p.id !== id)
+        if (remaining.length === 0) return {}
+        if (state.activeConnectionProfileId !== id) return { connectionProfiles: remaining }
+        return { ...applyProfile(remaining[0]), connectionProfiles: remaining }
       }),
       
+      tokenStorage: DEFAULT_TOKEN_STORAGE,
+      setTokenStorage: (settings) => set((state) => ({
+        tokenStorage: { ...state.tokenStorage, ...settings }
+      })),
+      setEncryptedTokens: (payload) => set({ encryptedTokens: payload }),
+      tokensLocked: false,
+      lockTokens: () => set((state) => ({
+        credentials: { ...state.credentials, token: '' },
+        connectionProfiles: stripProfileTokens(state.connectionProfiles),
+        isConnected: false,
+        tokensLocked: true
+      })),
+      unlockTokens: (tokens) => set((state) => ({
+        credentials: { ...state.credentials, token: tokens[state.activeConnectionProfileId] ?? '' },
+        connectionProfiles: state.connectionProfiles.map(p => ({
+          ...p,
+          credentials: { ...p.credentials, token: tokens[p.id] ?? '' }
+        })),
+        tokensLocked: false
+      })),
+      
+      // Locales
+      locales: [],
+      setLocales: (locales) => set({ locales }),
+      extraLocales: [],
+      setExtraLocales: (codes) => set({ extraLocales: Array.from(new Set(codes)) }),
+      localeFieldValues: {},
+      setLocaleFieldValue: (code, values) => set((state) => ({
+        localeFieldValues: {
+          ...state.localeFieldValues,
+          [code]: { ...state.localeFieldValues[code], ...values }
+        }
+      })),
+      
       // Files
       files: [],
       addFiles: (newFiles) => {
+        // Identical files in different folders are queued separately
+        const getId = ({ file, folderPath }: NewUploadFile) =>
+          `${folderPath ? `${folderPath}/` : ''}${file.name}-${file.size}-${file.lastModified}-${file.type}`
         const existingIds = new Set(get().files.map(f => f.id))
-        const uniqueFiles = newFiles.filter(file => {
-          const id = `${file.name}-${file.size}-${file.lastModified}-${file.type}`
-          return !existingIds.has(id)
-        })
+        const uniqueFiles = newFiles.filter(entry => !existingIds.has(getId(entry)))
         
-        const uploadFiles: UploadFile[] = uniqueFiles.map(file => ({
-          id: `${file.name}-${file.size}-${file.lastModified}-${file.type}`,
-          file,
-          status: 'pending',
-          progress: 0
-        }))
+        const { manifest } = get()
+        const uploadFiles: UploadFile[] = uniqueFiles.map(({ rejectionReason, ...entry }) => {
+          const manifestEntry = findManifestEntry(manifest, entry)
+          const values = manifestEntry ? applyManifestEntry(entry, manifestEntry) : entry
+          return {
+            ...values,
+            id: getId(entry),
+            tags: values.tags ? normalizeTagNames(values.tags) : undefined,
+            status: rejectionReason ? 'rejected' : 'pending',
+            error: rejectionReason,
+            progress: 0
+          }
+        })
         
         set((state) => ({
           files: [...state.files, ...uploadFiles]
         }))
       },
+      // Brings back files saved by an interrupted session, skipping any already queued
+      restoreFiles: (restored) => set((state) => {
+        const existingIds = new Set(state.files.map(f => f.id))
+        return { files: [...state.files, ...restored.filter(f => !existingIds.has(f.id))] }
+      }),
       removeFile: (id) => set((state) => ({
         files: state.files.filter(f => f.id !== id)
       })),
@@ -122,11 +454,68 @@ export const useAppStore = create<AppState>()(
         uploadStartTime: undefined, 
         uploadEndTime: undefined,
         firstEstimate: undefined,
-        rateLimitCount: 0
+        rateLimitCount: 0,
+        apiEvents: []
       }),
       updateFileStatus: (id, updates) => set((state) => ({
         files: state.files.map(f => f.id === id ? { ...f, ...updates } : f)
       })),
+      setTargetAsset: (id, assetId) => set((state) => ({
+        files: state.files.map(f => f.id === id ? { ...f, targetAssetId: assetId?.trim() || undefined } : f)
+      })),
+      setFileTags: (id, tags) => set((state) => ({
+        files: state.files.map(f => f.id === id ? { ...f, tags: normalizeTagNames(tags) } : f)
+      })),
+      // Clearing a value brings back the one generated by the naming rules
+      setFileText: (id, changes) => set((state) => ({
+        files: state.files.map(f => {
+          if (f.id !== id) return f
+          const updated = { ...f }
+          for (const key of ['title', 'description', 'credit'] as const) {
+            if (key in changes) updated[key] = changes[key] || undefined
+          }
+          return updated
+        })
+      })),
+      manifest: undefined,
+      // Switching binaries invalidates the hash and any upload made from the other one
+      setUseOriginal: (id, useOriginal) => set((state) => ({
+        files: state.files.map(f =>
+          f.id === id
+            ? { ...f, useOriginal, contentHash: undefined, checkpoint: undefined }
+            : f
+        )
+      })),
+      // Files already queued pick up the values of a newly imported manifest
+      setManifest: (manifest) => set((state) => ({
+        manifest,
+        files: state.files.map(f => {
+          const entry = f.status === 'pending' ? findManifestEntry(manifest, f) : undefined
+          if (!entry) return f
+          const values = applyManifestEntry(f, entry)
+          return { ...values, tags: values.tags ? normalizeTagNames(values.tags) : undefined }
+        })
+      })),
+      retryFile: (id) => set((state) => ({
+        files: state.files.map(f =>
+          f.id === id && (f.status === 'failed' || f.status === 'cancelled')
+            ? { ...f, status: 'pending', progress: 0, error: undefined, endTime: undefined, retryCount: undefined, lastError: undefined }
+            : f
+        )
+      })),
+      resolveDuplicate: (id, action) => set((state) => ({
+        files: state.files.map(f => {
+          if (f.id !== id || f.status !== 'duplicate') return f
+          switch (action) {
+            case 'skip':
+              return { ...f, status: 'skipped', duplicateAction: action }
+            case 'replace':
+              return { ...f, status: 'pending', duplicateAction: action, targetAssetId: f.duplicateOf?.assetId }
+            default:
+              return { ...f, status: 'pending', duplicateAction: action }
+          }
+        })
+      })),
       
       // Upload state
       isUploading: false,
@@ -137,14 +526,99 @@ export const useAppStore = create<AppState>()(
       setParallelCount: (count) => set({ 
         parallelCount: Math.max(1, Math.min(10, Math.round(count))) 
       }),
+      adaptiveConcurrency: false,
+      setAdaptiveConcurrency: (enabled) => set({ adaptiveConcurrency: enabled }),
+      currentConcurrency: undefined,
+      setCurrentConcurrency: (count) => set({ currentConcurrency: count }),
+      checkDuplicates: true,
+      setCheckDuplicates: (enabled) => set({ checkDuplicates: enabled }),
+      retryMaxAttempts: 4,
+      setRetryMaxAttempts: (attempts) => set({
+        retryMaxAttempts: Math.max(1, Math.min(10, Math.round(attempts)))
+      }),
+      retryBaseDelayMs: 1000,
+      setRetryBaseDelayMs: (delay) => set({
+        retryBaseDelayMs: Math.max(100, Math.min(30000, Math.round(delay)))
+      }),
+      publishMode: 'publish',
+      setPublishMode: (mode) => set({ publishMode: mode }),
+      scheduledPublishAt: undefined,
+      setScheduledPublishAt: (time) => set({ scheduledPublishAt: time }),
       
       // Tagging
       enableTagging: false,
       setEnableTagging: (enabled) => set({ enableTagging: enabled }),
-      tagName: '',
-      setTagName: (name) => set({ tagName: name }),
+      tagNames: [],
+      setTagNames: (names) => set({ tagNames: normalizeTagNames(names) }),
+      newTagVisibility: 'private',
+      setNewTagVisibility: (visibility) => set({ newTagVisibility: visibility }),
+      availableTags: [],
+      setAvailableTags: (tags) => set({ availableTags: tags }),
       autoTagFromFolder: true,
       setAutoTagFromFolder: (enabled) => set({ autoTagFromFolder: enabled }),
+      folderTagLevels: [],
+      setFolderTagLevels: (levels) => set({ folderTagLevels: levels }),
+      folderTitlePrefix: false,
+      setFolderTitlePrefix: (enabled) => set({ folderTitlePrefix: enabled }),
+      readEmbeddedMetadata: false,
+      setReadEmbeddedMetadata: (enabled) => set({ readEmbeddedMetadata: enabled }),
+      
+      // Validation
+      validationProfiles: [DEFAULT_VALIDATION_PROFILE],
+      activeValidationProfileId: DEFAULT_VALIDATION_PROFILE.id,
+      setActiveValidationProfile: (id) => set({ activeValidationProfileId: id }),
+      addValidationProfile: () => set((state) => {
+        const id = `profile-${Date.now()}`
+        return {
+          validationProfiles: [
+            ...state.validationProfiles,
+            { ...DEFAULT_VALIDATION_PROFILE, id, name: `Profile ${state.validationProfiles.length + 1}` }
+          ],
+          activeValidationProfileId: id
+        }
+      }),
+      updateValidationProfile: (id, changes) => set((state) => ({
+        validationProfiles: state.validationProfiles.map(p => p.id === id ? { ...p, ...changes } : p)
+      })),
+      // The last profile can't be removed
+      removeValidationProfile: (id) => set((state) => {
+        const remaining = state.validationProfiles.filter(p => p.id !== id)
+        if (remaining.length === 0) return {}
+        return {
+          validationProfiles: remaining,
+          activeValidationProfileId: state.activeValidationProfileId === id ? remaining[0].id : state.activeValidationProfileId
+        }
+      }),
+      
+      // Image optimisation
+      imageOptimization: DEFAULT_IMAGE_OPTIMIZATION,
+      setImageOptimization: (settings) => set((state) => {
+        const next = { ...state.imageOptimization, ...settings }
+        return {
+          imageOptimization: {
+            ...next,
+            maxWidth: Math.max(16, Math.min(16384, Math.round(next.maxWidth))),
+            maxHeight: Math.max(16, Math.min(16384, Math.round(next.maxHeight))),
+            quality: Math.max(1, Math.min(100, Math.round(next.quality)))
+          }
+        }
+      }),
+      
+      // Naming rules
+      namingRules: DEFAULT_NAMING_RULES,
+      setNamingRules: (rules) => set((state) => ({ namingRules: { ...state.namingRules, ...rules } })),
+      
+      // Entry linking
+      entryLinking: DEFAULT_ENTRY_LINK_SETTINGS,
+      setEntryLinking: (settings) => set((state) => ({ entryLinking: { ...state.entryLinking, ...settings } })),
+      galleryEntry: DEFAULT_GALLERY_ENTRY_SETTINGS,
+      setGalleryEntry: (settings) => set((state) => ({ galleryEntry: { ...state.galleryEntry, ...settings } })),
+      contentTypes: [],
+      setContentTypes: (contentTypes) => set({ contentTypes }),
+      
+      // Session export
+      exportColumns: DEFAULT_EXPORT_COLUMNS,
+      setExportColumns: (columns) => set({ exportColumns: columns }),
       
       // UI state
       isConnected: false,
@@ -153,14 +627,23 @@ export const useAppStore = create<AppState>()(
       setIsConnecting: (connecting) => set({ isConnecting: connecting }),
       showSettings: false,
       setShowSettings: (show) => set({ showSettings: show }),
+      showHistory: false,
+      setShowHistory: (show) => set({ showHistory: show }),
       isDarkMode: getPreferredTheme(),
       setIsDarkMode: (dark) => set({ isDarkMode: dark }),
       
       // Rate limiting tracking
       rateLimitCount: 0,
-      incrementRateLimit: () => set((state) => ({ rateLimitCount: state.rateLimitCount + 1 })),
       resetRateLimitCount: () => set({ rateLimitCount: 0 }),
       
+      // API telemetry
+      apiEvents: [],
+      recordApiEvent: (event) => set((state) => ({
+        apiEvents: [...state.apiEvents, event].slice(-MAX_API_EVENTS),
+        rateLimitCount: event.status === 429 ? state.rateLimitCount + 1 : state.rateLimitCount
+      })),
+      clearApiEvents: () => set({ apiEvents: [] }),
+      
       // Upload timing
       uploadStartTime: undefined,
       uploadEndTime: undefined,
@@ -174,31 +657,41 @@ export const useAppStore = create<AppState>()(
         
         // Calculate average upload speed from completed files
         const completedFiles = state.files.filter(f => f.status === 'completed' && f.startTime && f.endTime)
-        if (completedFiles.length === 0) return null
+        // Files still transferring report their live speed
+        const transferringFiles = state.files.filter(f => f.status === 'processing' && f.uploadSpeed)
+        if (completedFiles.length === 0 && transferringFiles.length === 0) return null
         
-        // Use weighted average giving more weight to recent uploads
-        // Calculate weighted average speed (more recent files have higher weight)
-        let weightedSpeed = 0
-        let totalWeight = 0
-        completedFiles.forEach((file, index) => {
-          const weight = completedFiles.length - index // More recent files have higher weight
-          const fileSpeed = file.file.size / (file.endTime! - file.startTime!)
-          weightedSpeed += fileSpeed * weight
-          totalWeight += weight
-        })
-        
-        const avgSpeed = weightedSpeed / totalWeight // bytes per ms
+        let avgSpeed: number // bytes per ms
+        if (completedFiles.length > 0) {
+          // Use weighted average giving more weight to recent uploads
+          // Calculate weighted average speed (more recent files have higher weight)
+          let weightedSpeed = 0
+          let totalWeight = 0
+          completedFiles.forEach((file, index) => {
+            const weight = completedFiles.length - index // More recent files have higher weight
+            const fileSpeed = getFileToUpload(file).size / (file.endTime! - file.startTime!)
+            weightedSpeed += fileSpeed * weight
+            totalWeight += weight
+          })
+          avgSpeed = weightedSpeed / totalWeight
+        } else {
+          const totalSpeed = transferringFiles.reduce((sum, f) => sum + f.uploadSpeed!, 0)
+          avgSpeed = totalSpeed / transferringFiles.length / 1000
+        }
         
-        // Calculate remaining work
+        // Calculate remaining work, minus bytes already sent for files in flight
         const remainingFiles = state.files.filter(f => f.status === 'pending' || f.status === 'processing')
-        const remainingBytes = remainingFiles.reduce((sum, f) => sum + f.file.size, 0)
+        const remainingBytes = remainingFiles.reduce((sum, f) => sum + getFileToUpload(f).size - (f.bytesSent ?? 0), 0)
+        
+        // Adaptive sessions change their concurrency as they go
+        const concurrency = state.currentConcurrency ?? state.parallelCount
         
         // Apply efficiency factor based on parallel uploads (diminishing returns)
-        const efficiencyFactor = Math.min(state.parallelCount * 0.8, 1.0) // Max 80% efficiency for parallel uploads
+        const efficiencyFactor = Math.min(concurrency * 0.8, 1.0) // Max 80% efficiency for parallel uploads
         
         // Estimate time remaining based on weighted average speed and parallel uploads
         const now = Date.now()
-        const estimatedTimeRemaining = remainingBytes / (avgSpeed * state.parallelCount * efficiencyFactor)
+        const estimatedTimeRemaining = remainingBytes / (avgSpeed * concurrency * efficiencyFactor)
         
         return now + estimatedTimeRemaining
       },
@@ -212,12 +705,42 @@ export const useAppStore = create<AppState>()(
     }),
     {
       name: 'contentful-uploader-storage',
+      // Tokens only reach localStorage in plain mode; encrypted mode keeps the ciphertext instead
       partialize: (state) => ({
-        credentials: state.credentials,
+        credentials: state.tokenStorage.mode === 'plain' ? state.credentials : { ...state.credentials, token: '' },
+        connectionProfiles: state.tokenStorage.mode === 'plain' ? state.connectionProfiles : stripProfileTokens(state.connectionProfiles),
+        tokenStorage: state.tokenStorage,
+        encryptedTokens: state.tokenStorage.mode === 'encrypted' ? state.encryptedTokens : undefined,
+        activeConnectionProfileId: state.activeConnectionProfileId,
+        extraLocales: state.extraLocales,
+        localeFieldValues: state.localeFieldValues,
         parallelCount: state.parallelCount,
+        adaptiveConcurrency: state.adaptiveConcurrency,
+        checkDuplicates: state.checkDuplicates,
+        retryMaxAttempts: state.retryMaxAttempts,
+        retryBaseDelayMs: state.retryBaseDelayMs,
+        publishMode: state.publishMode,
+        scheduledPublishAt: state.scheduledPublishAt,
         isDarkMode: state.isDarkMode,
-        autoTagFromFolder: state.autoTagFromFolder
-      })
+        autoTagFromFolder: state.autoTagFromFolder,
+        folderTagLevels: state.folderTagLevels,
+        folderTitlePrefix: state.folderTitlePrefix,
+        readEmbeddedMetadata: state.readEmbeddedMetadata,
+        namingRules: state.namingRules,
+        entryLinking: state.entryLinking,
+        galleryEntry: state.galleryEntry,
+        exportColumns: state.exportColumns,
+        imageOptimization: state.imageOptimization,
+        validationProfiles: state.validationProfiles,
+        activeValidationProfileId: state.activeValidationProfileId,
+        newTagVisibility: state.newTagVisibility
+      }),
+      // Stored ciphertext means the tokens have to be unlocked before anything connects
+      onRehydrateStorage: () => (state) => {
+        if (state?.tokenStorage.mode === 'encrypted' && state.encryptedTokens) {
+          state.lockTokens()
+        }
+      }
     }
   )
 )
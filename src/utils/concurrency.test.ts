@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ConcurrencyController } from './concurrency'
+
+// Lets pending acquire() promises settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('ConcurrencyController', () => {
+  it('keeps the limit within min and max', () => {
+    expect(new ConcurrencyController({ limit: 0 }).currentLimit).toBe(1)
+    expect(new ConcurrencyController({ limit: 50 }).currentLimit).toBe(10)
+    expect(new ConcurrencyController({ limit: 4, min: 2, max: 3 }).currentLimit).toBe(3)
+  })
+
+  it('queues tasks over the limit until a slot is released', async () => {
+    const controller = new ConcurrencyController({ limit: 2 })
+    const started: number[] = []
+    for (const task of [1, 2, 3]) {
+      void controller.acquire().then(() => started.push(task))
+    }
+
+    await flush()
+    expect(started).toEqual([1, 2])
+
+    controller.release()
+    await flush()
+    expect(started).toEqual([1, 2, 3])
+  })
+
+  it('ignores successes and rate limits unless adaptive', () => {
+    const controller = new ConcurrencyController({ limit: 2 })
+    controller.recordSuccess()
+    controller.recordSuccess()
+    controller.recordRateLimit()
+    expect(controller.currentLimit).toBe(2)
+  })
+
+  it('grows by one after a full round of successes', () => {
+    const onLimitChange = vi.fn()
+    const controller = new ConcurrencyController({ limit: 2, adaptive: true, max: 3, onLimitChange })
+    controller.recordSuccess()
+    expect(controller.currentLimit).toBe(2)
+    controller.recordSuccess()
+    expect(controller.currentLimit).toBe(3)
+
+    // Already at max
+    for (let i = 0; i < 3; i++) controller.recordSuccess()
+    expect(controller.currentLimit).toBe(3)
+    expect(onLimitChange.mock.calls).toEqual([[2], [3]])
+  })
+
+  it('halves on a rate limit and ignores repeats within the cooldown', () => {
+    vi.useFakeTimers()
+    const controller = new ConcurrencyController({ limit: 8, adaptive: true })
+    controller.recordRateLimit()
+    expect(controller.currentLimit).toBe(4)
+
+    controller.recordRateLimit()
+    expect(controller.currentLimit).toBe(4)
+
+    vi.advanceTimersByTime(2000)
+    controller.recordRateLimit()
+    expect(controller.currentLimit).toBe(2)
+
+    vi.advanceTimersByTime(2000)
+    controller.recordRateLimit()
+    vi.advanceTimersByTime(2000)
+    controller.recordRateLimit()
+    expect(controller.currentLimit).toBe(1)
+  })
+
+  it('starts queued tasks when the limit grows', async () => {
+    const controller = new ConcurrencyController({ limit: 1, adaptive: true })
+    const started: number[] = []
+    for (const task of [1, 2]) {
+      void controller.acquire().then(() => started.push(task))
+    }
+    await flush()
+    expect(started).toEqual([1])
+
+    controller.recordSuccess()
+    await flush()
+    expect(started).toEqual([1, 2])
+  })
+})
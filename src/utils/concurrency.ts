@@ -0,0 +1,88 @@
+interface ConcurrencyOptions {
+  limit: number
+  adaptive?: boolean
+  min?: number
+  max?: number
+  onLimitChange?: (limit: number) => void
+}
+
+// Rate-limit signals arrive in bursts (one 429 is often reported several times), so ignore repeats for a while
+const BACKOFF_COOLDOWN_MS = 2000
+
+// Limits how many tasks run at once. In adaptive mode the limit grows by one after a full
+// round of successes and is halved when Contentful starts rate limiting.
+export class ConcurrencyController {
+  private limit: number
+  private active = 0
+  private successesSinceChange = 0
+  private lastBackoff = 0
+  private waiting: (() => void)[] = []
+  private readonly adaptive: boolean
+  private readonly min: number
+  private readonly max: number
+  private readonly onLimitChange?: (limit: number) => void
+
+  constructor({ limit, adaptive = false, min = 1, max = 10, onLimitChange }: ConcurrencyOptions) {
+    this.adaptive = adaptive
+    this.min = min
+    this.max = max
+    this.limit = Math.max(min, Math.min(max, limit))
+    this.onLimitChange = onLimitChange
+    this.onLimitChange?.(this.limit)
+  }
+
+  get currentLimit(): number {
+    return this.limit
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++
+      return
+    }
+
+    return new Promise<void>((resolve) => {
+      this.waiting.push(resolve)
+    })
+  }
+
+  release(): void {
+    this.active--
+    this.drain()
+  }
+
+  recordSuccess(): void {
+    if (!this.adaptive) return
+
+    this.successesSinceChange++
+    if (this.successesSinceChange >= this.limit && this.limit < this.max) {
+      this.setLimit(this.limit + 1)
+    }
+  }
+
+  recordRateLimit(): void {
+    if (!this.adaptive) return
+
+    const now = Date.now()
+    if (now - this.lastBackoff < BACKOFF_COOLDOWN_MS) return
+    this.lastBackoff = now
+    this.setLimit(Math.max(this.min, Math.floor(this.limit / 2)))
+  }
+
+  private setLimit(limit: number): void {
+    this.successesSinceChange = 0
+    if (limit === this.limit) return
+
+    this.limit = limit
+    this.onLimitChange?.(limit)
+    this.drain()
+  }
+
+  private drain(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      const resolve = this.waiting.shift()!
+      this.active++
+      resolve()
+    }
+  }
+}
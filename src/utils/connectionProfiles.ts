@@ -0,0 +1,49 @@
+import type { Credentials, LocaleFieldValues, PublishMode } from '../store/useAppStore'
+import type { EntryLinkSettings } from './entryLinking'
+
+// Upload preferences each profile keeps alongside its credentials
+export interface ProfilePreferences {
+  parallelCount: number
+  adaptiveConcurrency: boolean
+  checkDuplicates: boolean
+  publishMode: PublishMode
+  extraLocales: string[]
+  localeFieldValues: LocaleFieldValues
+  entryLinking: EntryLinkSettings
+  activeValidationProfileId: string
+}
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+  credentials: Credentials
+  preferences?: ProfilePreferences // unset until the profile is first switched away from
+}
+
+export const DEFAULT_CONNECTION_PROFILE: ConnectionProfile = {
+  id: 'default',
+  name: 'Default',
+  credentials: { spaceId: '', environmentId: '', token: '' }
+}
+
+export const pickProfilePreferences = (source: ProfilePreferences): ProfilePreferences => ({
+  parallelCount: source.parallelCount,
+  adaptiveConcurrency: source.adaptiveConcurrency,
+  checkDuplicates: source.checkDuplicates,
+  publishMode: source.publishMode,
+  extraLocales: source.extraLocales,
+  localeFieldValues: source.localeFieldValues,
+  entryLinking: source.entryLinking,
+  activeValidationProfileId: source.activeValidationProfileId
+})
+
+// "Production (abc123/master)"
+export const describeProfile = (name: string, credentials: Credentials) =>
+  credentials.spaceId ? `${name} (${credentials.spaceId}/${credentials.environmentId || '?'})` : name
+
+// Tokens by profile ID; the active profile's live token wins over its saved one
+export const getProfileTokens = (profiles: ConnectionProfile[], activeId: string, credentials: Credentials) =>
+  Object.fromEntries(profiles.map(p => [p.id, p.id === activeId ? credentials.token : p.credentials.token]))
+
+export const stripProfileTokens = (profiles: ConnectionProfile[]) =>
+  profiles.map(p => ({ ...p, credentials: { ...p.credentials, token: '' } }))
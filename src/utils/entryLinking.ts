@@ -0,0 +1,87 @@
+import type { ContentTypeFieldInfo, UploadFile } from '../store/useAppStore'
+
+export type EntryFieldSource = 'title' | 'description' | 'filename' | 'folder' | 'credit' | 'tags' | 'static'
+
+export interface EntryFieldMapping {
+  fieldId: string
+  source: EntryFieldSource
+  value?: string // text used by the "static" source
+}
+
+export interface EntryLinkSettings {
+  enabled: boolean
+  contentTypeId: string
+  assetFieldId: string // Link or Array-of-Links field that receives the asset
+  mappings: EntryFieldMapping[]
+  publish: boolean
+}
+
+export const DEFAULT_ENTRY_LINK_SETTINGS: EntryLinkSettings = {
+  enabled: false,
+  contentTypeId: '',
+  assetFieldId: '',
+  mappings: [],
+  publish: false
+}
+
+// A single entry (gallery, carousel) whose array field links every asset of the session
+export interface GalleryEntrySettings {
+  contentTypeId: string
+  fieldId: string // Array-of-asset-links field
+  titleFieldId: string // optional Symbol field for the entry title
+  publish: boolean
+}
+
+export const DEFAULT_GALLERY_ENTRY_SETTINGS: GalleryEntrySettings = {
+  contentTypeId: '',
+  fieldId: '',
+  titleFieldId: '',
+  publish: false
+}
+
+export const ENTRY_FIELD_SOURCES: { value: EntryFieldSource; label: string }[] = [
+  { value: 'title', label: 'Asset title' },
+  { value: 'description', label: 'Asset description' },
+  { value: 'filename', label: 'File name' },
+  { value: 'folder', label: 'Folder path' },
+  { value: 'credit', label: 'Credit line' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'static', label: 'Fixed text' }
+]
+
+export const isAssetArrayField = (field: ContentTypeFieldInfo) =>
+  field.type === 'Array' && field.items?.type === 'Link' && field.items.linkType === 'Asset'
+
+export const isAssetLinkField = (field: ContentTypeFieldInfo) =>
+  (field.type === 'Link' && field.linkType === 'Asset') || isAssetArrayField(field)
+
+// Field types a mapping can fill
+export const isMappableField = (field: ContentTypeFieldInfo) =>
+  field.type === 'Symbol' || field.type === 'Text' || (field.type === 'Array' && field.items?.type === 'Symbol')
+
+// Values that go into the mapped fields; the service shapes them for each field type
+export type EntryFieldValues = Record<string, string | string[]>
+
+export const buildEntryFieldValues = (
+  mappings: EntryFieldMapping[],
+  upload: Pick<UploadFile, 'file' | 'folderPath' | 'credit'>,
+  text: { title: string; description: string },
+  tags: string[]
+): EntryFieldValues => {
+  const values: EntryFieldValues = {}
+  for (const { fieldId, source, value } of mappings) {
+    if (!fieldId) continue
+    const resolved = {
+      title: text.title,
+      description: text.description,
+      filename: upload.file.name,
+      folder: upload.folderPath ?? '',
+      credit: upload.credit ?? '',
+      tags,
+      static: value ?? ''
+    }[source]
+    // Empty values are left out so the field keeps its default
+    if (resolved.length > 0) values[fieldId] = resolved
+  }
+  return values
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { hashFile } from './fileHash'
+
+const sha256 = async (bytes: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+describe('hashFile', () => {
+  it('gives the same fingerprint for the same contents', async () => {
+    const a = await hashFile(new Blob(['hello world']))
+    const b = await hashFile(new Blob(['hello', ' ', 'world']))
+    expect(a).toBe(b)
+    expect(a).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('gives different fingerprints for different contents', async () => {
+    expect(await hashFile(new Blob(['hello world']))).not.toBe(await hashFile(new Blob(['hello world!'])))
+  })
+
+  it('hashes the digests of each 8 MB slice', async () => {
+    const bytes = new Uint8Array(9 * 1024 * 1024).map((_, i) => i % 251)
+    const first = await sha256(bytes.slice(0, 8 * 1024 * 1024))
+    const second = await sha256(bytes.slice(8 * 1024 * 1024))
+    const combined = new Uint8Array(64)
+    combined.set(first)
+    combined.set(second, 32)
+
+    expect(await hashFile(new Blob([bytes]))).toBe(toHex(await sha256(combined)))
+  })
+})
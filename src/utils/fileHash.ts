@@ -0,0 +1,24 @@
+// Files are read one slice at a time so large videos never sit in memory whole
+const HASH_CHUNK_SIZE = 8 * 1024 * 1024
+
+// Larger files are not fingerprinted; the duplicate check matches them by name and size only
+export const MAX_FINGERPRINT_SIZE = 2 * 1024 * 1024 * 1024
+
+const DIGEST_LENGTH = 32
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+// WebCrypto can't hash incrementally, so this is the SHA-256 of the SHA-256s of each slice.
+// It differs from `sha256sum` output but is stable, and is only compared with hashes made here.
+export const hashFile = async (file: Blob): Promise<string> => {
+  const chunkCount = Math.ceil(file.size / HASH_CHUNK_SIZE)
+  const digests = new Uint8Array(chunkCount * DIGEST_LENGTH)
+  for (let i = 0; i < chunkCount; i++) {
+    const chunk = await file.slice(i * HASH_CHUNK_SIZE, (i + 1) * HASH_CHUNK_SIZE).arrayBuffer()
+    digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)), i * DIGEST_LENGTH)
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', digests))
+}
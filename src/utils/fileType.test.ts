@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { detectContentType, detectTypeFromBytes, getTypeFromExtension } from './fileType'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+// Pads the signature so offset-based checks see a full header
+const header = (...parts: (number[] | string)[]) => {
+  const bytes = new Uint8Array(64)
+  bytes.set(parts.flatMap(part => (typeof part === 'string' ? ascii(part) : part)))
+  return bytes
+}
+
+const ftyp = (brand: string) => header([0, 0, 0, 0x18], 'ftyp', brand)
+
+describe('detectTypeFromBytes', () => {
+  it.each([
+    ['image/jpeg', header([0xff, 0xd8, 0xff, 0xe0])],
+    ['image/png', header([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+    ['image/gif', header('GIF89a')],
+    ['image/webp', header('RIFF', [0, 0, 0, 0], 'WEBP')],
+    ['audio/wav', header('RIFF', [0, 0, 0, 0], 'WAVE')],
+    ['image/tiff', header([0x49, 0x49, 0x2a, 0x00])],
+    ['application/pdf', header('%PDF-1.7')],
+    ['application/zip', header([0x50, 0x4b, 0x03, 0x04])],
+    ['video/webm', header([0x1a, 0x45, 0xdf, 0xa3])],
+    ['audio/mpeg', header('ID3')]
+  ])('recognises %s', (type, bytes) => {
+    expect(detectTypeFromBytes(bytes)).toBe(type)
+  })
+
+  it('maps ISO base media brands', () => {
+    expect(detectTypeFromBytes(ftyp('heic'))).toBe('image/heic')
+    expect(detectTypeFromBytes(ftyp('avif'))).toBe('image/avif')
+    expect(detectTypeFromBytes(ftyp('qt  '))).toBe('video/quicktime')
+    expect(detectTypeFromBytes(ftyp('isom'))).toBe('video/mp4')
+    expect(detectTypeFromBytes(ftyp('M4A '))).toBe('audio/mp4')
+  })
+
+  it('returns undefined for unrecognised brands', () => {
+    expect(detectTypeFromBytes(ftyp('3gp4'))).toBeUndefined()
+    expect(detectTypeFromBytes(ftyp('crx '))).toBeUndefined()
+  })
+
+  it('only takes "BM" as a bitmap with a valid header size', () => {
+    const bitmap = header('BM')
+    bitmap[14] = 40
+    expect(detectTypeFromBytes(bitmap)).toBe('image/bmp')
+    expect(detectTypeFromBytes(new Uint8Array(ascii('BMW service record')))).toBeUndefined()
+  })
+
+  it('recognises SVG markup', () => {
+    expect(detectTypeFromBytes(new Uint8Array(ascii('  <svg xmlns="http://www.w3.org/2000/svg">')))).toBe('image/svg+xml')
+    expect(detectTypeFromBytes(new Uint8Array(ascii('<?xml version="1.0"?><svg>')))).toBe('image/svg+xml')
+    expect(detectTypeFromBytes(new Uint8Array(ascii('<?xml version="1.0"?><feed>')))).toBeUndefined()
+  })
+})
+
+describe('getTypeFromExtension', () => {
+  it('looks up the extension case-insensitively', () => {
+    expect(getTypeFromExtension('Photo.JPG')).toBe('image/jpeg')
+    expect(getTypeFromExtension('jpg')).toBeUndefined()
+    expect(getTypeFromExtension('notes.xyz')).toBeUndefined()
+  })
+})
+
+describe('detectContentType', () => {
+  it('prefers the signature and flags a wrong declared type', async () => {
+    const file = new File([header([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])], 'image.jpg', { type: 'image/jpeg' })
+    expect(await detectContentType(file)).toEqual({ contentType: 'image/png', mismatch: true })
+  })
+
+  it('keeps a specific declared type for zip containers', async () => {
+    const type = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    const file = new File([header([0x50, 0x4b, 0x03, 0x04])], 'report.docx', { type })
+    expect(await detectContentType(file)).toEqual({ contentType: type, mismatch: false })
+  })
+
+  it('falls back to the extension when the signature and browser say nothing', async () => {
+    const file = new File(['a,b\n'], 'data.csv', { type: 'application/octet-stream' })
+    expect(await detectContentType(file)).toEqual({ contentType: 'text/csv', mismatch: false })
+  })
+
+  it('keeps the declared type for an unrecognised brand', async () => {
+    const file = new File([ftyp('3gp4')], 'clip.3gp', { type: 'video/3gpp' })
+    expect(await detectContentType(file)).toEqual({ contentType: 'video/3gpp', mismatch: false })
+  })
+})
@@ -0,0 +1,138 @@
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  psd: 'image/vnd.adobe.photoshop',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  json: 'application/json',
+  csv: 'text/csv',
+  txt: 'text/plain'
+}
+
+// ISO base media brands (the "ftyp" box) and the types they stand for
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  hevc: 'image/heic',
+  hevx: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  qt: 'video/quicktime',
+  'M4A': 'audio/mp4',
+  'M4V': 'video/mp4',
+  isom: 'video/mp4',
+  iso2: 'video/mp4',
+  mp41: 'video/mp4',
+  mp42: 'video/mp4',
+  avc1: 'video/mp4',
+  dash: 'video/mp4'
+}
+
+// Containers whose specific format only the extension reveals (docx, xlsx and friends are zips)
+const GENERIC_TYPES = ['application/zip']
+
+const SIGNATURE_BYTES = 64
+
+export const getTypeFromExtension = (name: string): string | undefined => {
+  const extension = name.split('.').pop()?.toLowerCase()
+  return extension && extension !== name.toLowerCase() ? EXTENSION_TYPES[extension] : undefined
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.slice(start, end))
+
+// Identifies the format from the file's leading bytes
+export const detectTypeFromBytes = (bytes: Uint8Array): string | undefined => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (readAscii(bytes, 0, 4) === 'GIF8') return 'image/gif'
+  if (readAscii(bytes, 0, 4) === 'RIFF') {
+    const format = readAscii(bytes, 8, 12)
+    if (format === 'WEBP') return 'image/webp'
+    if (format === 'WAVE') return 'audio/wav'
+    if (format === 'AVI ') return 'video/x-msvideo'
+  }
+  if (readAscii(bytes, 4, 8) === 'ftyp') {
+    // Unknown brands (3GP, CR3 raw files, other HEIF variants) keep the declared type
+    const brand = readAscii(bytes, 8, 12).trim()
+    return FTYP_BRANDS[brand] ?? FTYP_BRANDS[brand.toLowerCase()]
+  }
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff'
+  // BMP headers are 12-124 bytes long; checking the size avoids matching text that starts with "BM"
+  if (readAscii(bytes, 0, 2) === 'BM' && [12, 40, 52, 56, 108, 124].includes(bytes[14])) return 'image/bmp'
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return 'image/x-icon'
+  if (readAscii(bytes, 0, 4) === '8BPS') return 'image/vnd.adobe.photoshop'
+  if (readAscii(bytes, 0, 5) === '%PDF-') return 'application/pdf'
+  if (readAscii(bytes, 0, 4) === 'glTF') return 'model/gltf-binary'
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip'
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm'
+  if (readAscii(bytes, 0, 4) === 'OggS') return 'audio/ogg'
+  if (readAscii(bytes, 0, 3) === 'ID3' || startsWith(bytes, [0xff, 0xfb]) || startsWith(bytes, [0xff, 0xf3])) return 'audio/mpeg'
+
+  const text = readAscii(bytes, 0, bytes.length).replace(/^\uFEFF/, '').trimStart()
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return 'image/svg+xml'
+  return undefined
+}
+
+export interface ContentTypeInfo {
+  contentType: string // type sent to Contentful
+  mismatch: boolean // the browser's type disagrees with the file contents
+}
+
+// Some systems report octet-stream for anything they don't recognise, which is as good as no type
+const normalizeType = (type: string) => {
+  const lower = type.toLowerCase()
+  if (lower === 'application/octet-stream') return ''
+  return lower === 'image/jpg' ? 'image/jpeg' : lower
+}
+
+// Prefers the signature over the browser's guess, which is often empty or based on a wrong extension
+export const detectContentType = async (file: File): Promise<ContentTypeInfo> => {
+  const declared = normalizeType(file.type)
+  let detected: string | undefined
+  try {
+    detected = detectTypeFromBytes(new Uint8Array(await file.slice(0, SIGNATURE_BYTES).arrayBuffer()))
+  } catch {
+    detected = undefined
+  }
+
+  // A zip may be a docx; the more specific declared type wins
+  if (detected && GENERIC_TYPES.includes(detected)) {
+    return { contentType: declared || getTypeFromExtension(file.name) || detected, mismatch: false }
+  }
+
+  if (detected) {
+    return { contentType: detected, mismatch: declared !== '' && declared !== detected }
+  }
+  return {
+    contentType: declared || getTypeFromExtension(file.name) || 'application/octet-stream',
+    mismatch: false
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { getFolderSegments, getFolderTags, parseFolderLevels } from './folderPath'
+
+describe('getFolderSegments', () => {
+  it('drops the file name, leading "./" and empty segments', () => {
+    expect(getFolderSegments('./photos//2026/ summer /hero.jpg')).toEqual(['photos', '2026', 'summer'])
+  })
+
+  it('accepts Windows separators', () => {
+    expect(getFolderSegments('photos\\2026\\hero.jpg')).toEqual(['photos', '2026'])
+  })
+
+  it('returns nothing for a file at the top level', () => {
+    expect(getFolderSegments('hero.jpg')).toEqual([])
+  })
+})
+
+describe('parseFolderLevels', () => {
+  it('keeps positive whole levels, sorted and without repeats', () => {
+    expect(parseFolderLevels('3, 1 1,0 -2 x')).toEqual([1, 3])
+  })
+
+  it('returns no levels for an empty value', () => {
+    expect(parseFolderLevels('')).toEqual([])
+  })
+})
+
+describe('getFolderTags', () => {
+  const segments = ['photos', '2026', 'summer']
+
+  it('uses every folder without levels', () => {
+    expect(getFolderTags(segments, [])).toEqual(segments)
+  })
+
+  it('picks the folders at the given depths and skips missing ones', () => {
+    expect(getFolderTags(segments, [1, 3, 5])).toEqual(['photos', 'summer'])
+  })
+})
@@ -0,0 +1,25 @@
+// Folder segments of a dropped file's relative path, without the file name
+export const getFolderSegments = (relativePath: string): string[] => {
+  const segments = relativePath
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.')
+  return segments.slice(0, -1)
+}
+
+// Parses "1, 3" into [1, 3]; an empty value means every level
+export const parseFolderLevels = (value: string): number[] =>
+  Array.from(new Set(
+    value
+      .split(/[\s,]+/)
+      .map(part => parseInt(part, 10))
+      .filter(level => Number.isInteger(level) && level > 0)
+  )).sort((a, b) => a - b)
+
+// Picks the folder names at the given 1-based depths; no levels selects all of them
+export const getFolderTags = (segments: string[], levels: number[]): string[] =>
+  levels.length === 0
+    ? segments
+    : levels.flatMap(level => segments[level - 1] ?? [])
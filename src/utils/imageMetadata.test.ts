@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { applyEmbeddedMetadata, extractEmbeddedMetadata, formatCreditLine } from './imageMetadata'
+
+const ascii = (text: string) => new TextEncoder().encode(`${text}\u0000`)
+const utf16 = (text: string) => new Uint8Array(Array.from(`${text}\u0000`).flatMap(char => [char.charCodeAt(0), 0]))
+const concat = (...parts: (Uint8Array | number[])[]) => new Uint8Array(parts.flatMap(part => Array.from(part)))
+
+// A TIFF header and a single IFD; values longer than four bytes follow the IFD
+const tiff = (littleEndian: boolean, entries: [number, Uint8Array][]) => {
+  const dataStart = 8 + 2 + entries.length * 12 + 4
+  const bytes = new Uint8Array(dataStart + entries.reduce((total, [, value]) => total + value.length, 0))
+  const view = new DataView(bytes.buffer)
+  bytes.set(littleEndian ? [0x49, 0x49, 0x2a, 0x00] : [0x4d, 0x4d, 0x00, 0x2a])
+  view.setUint32(4, 8, littleEndian)
+  view.setUint16(8, entries.length, littleEndian)
+  let dataOffset = dataStart
+  entries.forEach(([tag, value], i) => {
+    const entry = 10 + i * 12
+    view.setUint16(entry, tag, littleEndian)
+    view.setUint16(entry + 2, 2, littleEndian)
+    view.setUint32(entry + 4, value.length, littleEndian)
+    if (value.length <= 4) {
+      bytes.set(value, entry + 8)
+    } else {
+      view.setUint32(entry + 8, dataOffset, littleEndian)
+      bytes.set(value, dataOffset)
+      dataOffset += value.length
+    }
+  })
+  return bytes
+}
+
+const segment = (marker: number, payload: Uint8Array) =>
+  concat([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff], payload)
+
+// SOI, the given segments, then the start of the image data
+const jpeg = (...segments: Uint8Array[]) => concat([0xff, 0xd8], ...segments, [0xff, 0xda, 0x00, 0x02])
+
+const exifSegment = (body: Uint8Array) => segment(0xe1, concat(new TextEncoder().encode('Exif\u0000\u0000'), body))
+
+const iptc = (...datasets: [number, number, Uint8Array | number[]][]) =>
+  concat(...datasets.map(([record, dataset, value]) => concat([0x1c, record, dataset, value.length >> 8, value.length & 0xff], value)))
+
+// APP13 with a single 0x0404 resource holding the IPTC data
+const photoshopSegment = (data: Uint8Array) => {
+  const size = [data.length >>> 24, (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff]
+  const resource = concat(new TextEncoder().encode('8BIM'), [0x04, 0x04, 0x00, 0x00], size, data, data.length % 2 ? [0] : [])
+  return segment(0xed, concat(new TextEncoder().encode('Photoshop 3.0\u0000'), resource))
+}
+
+const extract = (bytes: Uint8Array<ArrayBuffer>) => extractEmbeddedMetadata(new File([bytes], 'photo.jpg'))
+
+describe('extractEmbeddedMetadata', () => {
+  it('reads a little-endian TIFF header', async () => {
+    const bytes = tiff(true, [[0x010e, ascii('Sunset over the bay')], [0x013b, ascii('Ann')], [0x8298, ascii('Example Ltd')]])
+    expect(await extract(bytes)).toEqual({
+      keywords: [],
+      caption: 'Sunset over the bay',
+      creator: 'Ann',
+      copyright: 'Example Ltd'
+    })
+  })
+
+  it('reads a big-endian TIFF header inside a JPEG EXIF segment', async () => {
+    const bytes = jpeg(exifSegment(tiff(false, [[0x013b, ascii('Jo Bloggs')], [0x9c9e, utf16('beach; summer;')]])))
+    expect(await extract(bytes)).toEqual({ keywords: ['beach', 'summer'], creator: 'Jo Bloggs' })
+  })
+
+  it('ignores camera placeholder descriptions', async () => {
+    expect(await extract(tiff(true, [[0x010e, ascii('OLYMPUS DIGITAL CAMERA ')]]))).toBeUndefined()
+  })
+
+  it('decodes IPTC text as Latin-1 without a character set', async () => {
+    const bytes = jpeg(photoshopSegment(iptc([2, 120, [0x43, 0x61, 0x66, 0xe9]], [2, 25, ascii('food')])))
+    expect(await extract(bytes)).toEqual({ keywords: ['food'], caption: 'Café' })
+  })
+
+  it('decodes IPTC text as UTF-8 when record 1:90 says so', async () => {
+    const bytes = jpeg(photoshopSegment(iptc([1, 90, [0x1b, 0x25, 0x47]], [2, 80, new TextEncoder().encode('Zoë Ångström')])))
+    expect(await extract(bytes)).toEqual({ keywords: [], creator: 'Zoë Ångström' })
+  })
+
+  it('prefers the first value from EXIF over IPTC and collects keywords from both', async () => {
+    const bytes = jpeg(
+      exifSegment(tiff(true, [[0x010e, ascii('From EXIF')], [0x9c9e, utf16('a;b')]])),
+      photoshopSegment(iptc([2, 120, ascii('From IPTC')], [2, 25, ascii('b')], [2, 25, ascii('c')]))
+    )
+    expect(await extract(bytes)).toEqual({ keywords: ['a', 'b', 'c'], caption: 'From EXIF' })
+  })
+
+  it('returns undefined for files without metadata', async () => {
+    expect(await extract(jpeg())).toBeUndefined()
+    expect(await extract(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBeUndefined()
+    expect(await extract(new Uint8Array())).toBeUndefined()
+  })
+
+  it('survives the file being cut off at any byte', async () => {
+    const bytes = jpeg(
+      exifSegment(tiff(false, [[0x010e, ascii('A long enough caption')], [0x013b, ascii('Ann')]])),
+      photoshopSegment(iptc([2, 25, ascii('keyword')]))
+    )
+    for (let length = 0; length < bytes.length; length++) {
+      // Rejects, and so fails the test, if any read goes out of bounds
+      await extract(bytes.subarray(0, length))
+    }
+  })
+
+  it('keeps the entries that fit when the IFD count runs past the data', async () => {
+    const bytes = tiff(true, [[0x013b, ascii('Ann')]])
+    new DataView(bytes.buffer).setUint16(8, 500, true)
+    expect(await extract(bytes)).toEqual({ keywords: [], creator: 'Ann' })
+  })
+
+  it('skips corrupt TIFF headers and segments', async () => {
+    const badByteOrder = tiff(true, [[0x013b, ascii('Ann')]])
+    badByteOrder.set([0x58, 0x58])
+    expect(await extract(jpeg(exifSegment(badByteOrder)))).toBeUndefined()
+
+    const badIfdOffset = tiff(false, [[0x013b, ascii('Ann')]])
+    new DataView(badIfdOffset.buffer).setUint32(4, 0xffffff00)
+    expect(await extract(badIfdOffset)).toBeUndefined()
+
+    // Declares more bytes than the segment holds
+    const oversizedSegment = concat([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff], new TextEncoder().encode('Exif\u0000\u0000II'))
+    expect(await extract(oversizedSegment)).toBeUndefined()
+  })
+})
+
+describe('formatCreditLine', () => {
+  it('joins the credit and copyright, falling back to the creator', () => {
+    expect(formatCreditLine({ credit: 'Reuters', copyright: '2026 Jo' })).toBe('Reuters · © 2026 Jo')
+    expect(formatCreditLine({ creator: 'Jo', copyright: '© Jo' })).toBe('Jo · © Jo')
+    expect(formatCreditLine({})).toBeUndefined()
+  })
+})
+
+describe('applyEmbeddedMetadata', () => {
+  it('fills empty fields and appends keywords to existing tags', () => {
+    const upload = { file: new File([], 'a.jpg'), description: 'Kept', tags: ['existing'] }
+    expect(applyEmbeddedMetadata(upload, { caption: 'Caption', keywords: ['new'], creator: 'Jo' })).toMatchObject({
+      description: 'Kept',
+      altText: 'Caption',
+      tags: ['existing', 'new'],
+      credit: 'Jo'
+    })
+  })
+})
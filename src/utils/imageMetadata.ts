@@ -0,0 +1,209 @@
+import type { NewUploadFile } from '../store/useAppStore'
+
+export interface EmbeddedMetadata {
+  caption?: string
+  keywords: string[]
+  creator?: string
+  copyright?: string
+  credit?: string
+}
+
+// Metadata blocks sit near the start of the file in practice
+const METADATA_SCAN_BYTES = 2 * 1024 * 1024
+
+// Placeholder descriptions some cameras write into every photo
+const CAMERA_PLACEHOLDERS = ['olympus digital camera', 'sony dsc', 'digital camera', 'default']
+
+const clean = (value: string | undefined) => {
+  const trimmed = value?.replaceAll('\u0000', '').trim()
+  if (!trimmed || CAMERA_PLACEHOLDERS.includes(trimmed.toLowerCase())) return undefined
+  return trimmed
+}
+
+const utf8 = new TextDecoder('utf-8')
+const latin1 = new TextDecoder('latin1')
+
+// IPTC-IIM datasets in record 2
+const IPTC_TAGS = { keywords: 25, creator: 80, credit: 110, copyright: 116, caption: 120 }
+
+// Record 1 dataset 90 names the character set; "ESC % G" is UTF-8
+const IPTC_CHARSET = { record: 1, dataset: 90 }
+const isUtf8Escape = (value: Uint8Array) => value.length >= 3 && value[0] === 0x1b && value[1] === 0x25 && value[2] === 0x47
+
+const parseIptc = (bytes: Uint8Array, into: EmbeddedMetadata) => {
+  // Text without a declared character set is Latin-1
+  let decoder = latin1
+  let offset = 0
+  while (offset + 5 <= bytes.length) {
+    if (bytes[offset] !== 0x1c) {
+      offset++
+      continue
+    }
+    const record = bytes[offset + 1]
+    const dataset = bytes[offset + 2]
+    const size = (bytes[offset + 3] << 8) | bytes[offset + 4]
+    const raw = bytes.subarray(offset + 5, offset + 5 + size)
+    offset += 5 + size
+    if (record === IPTC_CHARSET.record && dataset === IPTC_CHARSET.dataset) {
+      decoder = isUtf8Escape(raw) ? utf8 : latin1
+      continue
+    }
+    const value = record === 2 ? clean(decoder.decode(raw)) : undefined
+    if (!value) continue
+
+    if (dataset === IPTC_TAGS.keywords) into.keywords.push(value)
+    else if (dataset === IPTC_TAGS.caption) into.caption ??= value
+    else if (dataset === IPTC_TAGS.creator) into.creator ??= value
+    else if (dataset === IPTC_TAGS.copyright) into.copyright ??= value
+    else if (dataset === IPTC_TAGS.credit) into.credit ??= value
+  }
+}
+
+// Photoshop image resource blocks; 0x0404 holds the IPTC data
+const parsePhotoshopResources = (bytes: Uint8Array, into: EmbeddedMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 0
+  while (offset + 12 <= bytes.length && utf8.decode(bytes.subarray(offset, offset + 4)) === '8BIM') {
+    const id = view.getUint16(offset + 4)
+    const nameLength = bytes[offset + 6]
+    const nameSize = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2
+    const sizeOffset = offset + 6 + nameSize
+    if (sizeOffset + 4 > bytes.length) return
+    const size = view.getUint32(sizeOffset)
+    const dataOffset = sizeOffset + 4
+    if (id === 0x0404) {
+      parseIptc(bytes.subarray(dataOffset, dataOffset + size), into)
+    }
+    offset = dataOffset + size + (size % 2)
+  }
+}
+
+// EXIF IFD0 tags, including the UCS-2 "XP" tags Windows writes
+const EXIF_TAGS = { description: 0x010e, artist: 0x013b, copyright: 0x8298, xpComment: 0x9c9c, xpKeywords: 0x9c9e }
+
+const parseExif = (tiff: Uint8Array, into: EmbeddedMetadata) => {
+  if (tiff.length < 8) return
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  // "II" for little-endian, "MM" for big-endian; anything else is not a TIFF header
+  const byteOrder = view.getUint16(0)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return
+  const littleEndian = byteOrder === 0x4949
+  const ifdOffset = view.getUint32(4, littleEndian)
+  if (ifdOffset + 2 > tiff.length) return
+
+  const count = view.getUint16(ifdOffset, littleEndian)
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12
+    if (entry + 12 > tiff.length) return
+    const tag = view.getUint16(entry, littleEndian)
+    const length = view.getUint32(entry + 4, littleEndian)
+    const valueOffset = length <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+    const raw = tiff.subarray(valueOffset, valueOffset + length)
+
+    const isXpTag = tag === EXIF_TAGS.xpComment || tag === EXIF_TAGS.xpKeywords
+    const value = clean(isXpTag ? new TextDecoder('utf-16le').decode(raw) : utf8.decode(raw))
+    if (!value) continue
+
+    if (tag === EXIF_TAGS.description) into.caption ??= value
+    else if (tag === EXIF_TAGS.xpComment) into.caption ??= value
+    else if (tag === EXIF_TAGS.artist) into.creator ??= value
+    else if (tag === EXIF_TAGS.copyright) into.copyright ??= value
+    else if (tag === EXIF_TAGS.xpKeywords) into.keywords.push(...value.split(';').map(k => k.trim()).filter(Boolean))
+  }
+}
+
+// Walks JPEG segments up to the image data, collecting EXIF and IPTC
+const parseJpegSegments = (bytes: Uint8Array, into: EmbeddedMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    if (marker === 0xda || marker === 0xd9) return // start of scan / end of image
+    const length = view.getUint16(offset + 2)
+    const segment = bytes.subarray(offset + 4, offset + 2 + length)
+
+    if (marker === 0xe1 && utf8.decode(segment.subarray(0, 6)) === 'Exif\u0000\u0000') {
+      parseExif(segment.subarray(6), into)
+    } else if (marker === 0xed && utf8.decode(segment.subarray(0, 14)) === 'Photoshop 3.0\u0000') {
+      parsePhotoshopResources(segment.subarray(14), into)
+    }
+    offset += 2 + length
+  }
+}
+
+// Reads a property written either as a child element or as an attribute of rdf:Description
+const getXmpValues = (doc: Document, name: string): string[] => {
+  const values: string[] = []
+  Array.from(doc.getElementsByTagName(name)).forEach(element => {
+    const items = Array.from(element.getElementsByTagName('rdf:li'))
+    // Language alternatives (rdf:Alt) prefer the x-default entry
+    const defaultItem = items.find(item => item.getAttribute('xml:lang') === 'x-default')
+    if (defaultItem) {
+      values.push(defaultItem.textContent ?? '')
+    } else if (items.length > 0) {
+      items.forEach(item => values.push(item.textContent ?? ''))
+    } else {
+      values.push(element.textContent ?? '')
+    }
+  })
+  Array.from(doc.getElementsByTagName('rdf:Description')).forEach(description => {
+    const attribute = description.getAttribute(name)
+    if (attribute) values.push(attribute)
+  })
+  return values.map(value => clean(value)).filter((value): value is string => Boolean(value))
+}
+
+const parseXmp = (text: string, into: EmbeddedMetadata) => {
+  const start = text.indexOf('<x:xmpmeta')
+  const end = text.indexOf('</x:xmpmeta>', start)
+  if (start === -1 || end === -1) return
+
+  const doc = new DOMParser().parseFromString(text.slice(start, end + '</x:xmpmeta>'.length), 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) return
+
+  // XMP is the most current source, so it replaces values from the legacy blocks
+  const [caption] = getXmpValues(doc, 'dc:description')
+  const creators = getXmpValues(doc, 'dc:creator')
+  const [copyright] = getXmpValues(doc, 'dc:rights')
+  const [credit] = getXmpValues(doc, 'photoshop:Credit')
+  into.caption = caption ?? into.caption
+  into.creator = creators.length > 0 ? creators.join(', ') : into.creator
+  into.copyright = copyright ?? into.copyright
+  into.credit = credit ?? into.credit
+  into.keywords.push(...getXmpValues(doc, 'dc:subject'))
+}
+
+export const extractEmbeddedMetadata = async (file: File): Promise<EmbeddedMetadata | undefined> => {
+  const bytes = new Uint8Array(await file.slice(0, METADATA_SCAN_BYTES).arrayBuffer())
+  const metadata: EmbeddedMetadata = { keywords: [] }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    parseJpegSegments(bytes, metadata)
+  } else if ((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4d && bytes[1] === 0x4d)) {
+    parseExif(bytes, metadata)
+  }
+  // XMP packets are plain XML wherever they are embedded (JPEG, PNG, WebP, TIFF, HEIC)
+  parseXmp(utf8.decode(bytes), metadata)
+
+  const keywords = Array.from(new Set(metadata.keywords))
+  const result: EmbeddedMetadata = { ...metadata, keywords }
+  const hasValues = keywords.length > 0 ||
+    Boolean(result.caption || result.creator || result.copyright || result.credit)
+  return hasValues ? result : undefined
+}
+
+// "Credit · © Copyright", falling back to the creator when there is no explicit credit
+export const formatCreditLine = ({ creator, copyright, credit }: Pick<EmbeddedMetadata, 'creator' | 'copyright' | 'credit'>) => {
+  const copyrightText = copyright && !copyright.startsWith('©') ? `© ${copyright}` : copyright
+  return [credit ?? creator, copyrightText].filter(Boolean).join(' · ') || undefined
+}
+
+// Caption fills the description and alt text; a matching manifest row still overrides them when the file is queued
+export const applyEmbeddedMetadata = <T extends NewUploadFile>(upload: T, metadata: EmbeddedMetadata): T => ({
+  ...upload,
+  embeddedMetadata: metadata,
+  description: upload.description ?? metadata.caption,
+  altText: upload.altText ?? metadata.caption,
+  tags: metadata.keywords.length > 0 ? [...(upload.tags ?? []), ...metadata.keywords] : upload.tags,
+  credit: upload.credit ?? formatCreditLine(metadata)
+})
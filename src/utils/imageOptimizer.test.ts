@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_IMAGE_OPTIMIZATION, getFileToUpload, isOptimizableImage, optimizeImage } from './imageOptimizer'
+
+// Stands in for the browser's canvas so the scaling and encoding steps can be checked
+const stubCanvas = (source: { width: number; height: number }, encodedType?: string) => {
+  const drawn: number[][] = []
+  const close = vi.fn()
+  vi.stubGlobal('createImageBitmap', async () => ({ ...source, close }))
+  vi.stubGlobal('OffscreenCanvas', class {
+    getContext() {
+      return { drawImage: (_bitmap: unknown, x: number, y: number, w: number, h: number) => drawn.push([x, y, w, h]) }
+    }
+    async convertToBlob({ type }: { type: string }) {
+      return new Blob(['encoded'], { type: encodedType ?? type })
+    }
+  })
+  return { drawn, close }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('optimizeImage', () => {
+  const photo = new File(['raw'], 'holiday.photo.jpg', { type: 'image/jpeg', lastModified: 1000 })
+
+  it('scales down to fit the bounds and renames the file', async () => {
+    const { drawn, close } = stubCanvas({ width: 5120, height: 2880 })
+    const result = await optimizeImage(photo, DEFAULT_IMAGE_OPTIMIZATION)
+
+    expect(drawn).toEqual([[0, 0, 2560, 1440]])
+    expect(result.name).toBe('holiday.photo.webp')
+    expect(result.type).toBe('image/webp')
+    expect(result.lastModified).toBe(1000)
+    expect(close).toHaveBeenCalled()
+  })
+
+  it('never scales up', async () => {
+    const { drawn } = stubCanvas({ width: 800, height: 600 })
+    await optimizeImage(photo, { ...DEFAULT_IMAGE_OPTIMIZATION, format: 'avif' })
+    expect(drawn).toEqual([[0, 0, 800, 600]])
+  })
+
+  it('fails when the browser falls back to another format', async () => {
+    const { close } = stubCanvas({ width: 800, height: 600 }, 'image/png')
+    await expect(optimizeImage(photo, { ...DEFAULT_IMAGE_OPTIMIZATION, format: 'avif' }))
+      .rejects.toThrow('This browser cannot encode AVIF images')
+    expect(close).toHaveBeenCalled()
+  })
+})
+
+describe('isOptimizableImage', () => {
+  it('leaves GIFs and vector images alone', () => {
+    expect(isOptimizableImage('IMAGE/JPEG')).toBe(true)
+    expect(isOptimizableImage('image/gif')).toBe(false)
+    expect(isOptimizableImage('image/svg+xml')).toBe(false)
+  })
+})
+
+describe('getFileToUpload', () => {
+  it('uses the optimised copy unless the original was chosen', () => {
+    const file = new File(['raw'], 'a.jpg')
+    const optimizedFile = new File(['small'], 'a.webp')
+    expect(getFileToUpload({ file, optimizedFile })).toBe(optimizedFile)
+    expect(getFileToUpload({ file, optimizedFile, useOriginal: true })).toBe(file)
+    expect(getFileToUpload({ file })).toBe(file)
+  })
+})
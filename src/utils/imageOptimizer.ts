@@ -0,0 +1,59 @@
+import type { UploadFile } from '../store/useAppStore'
+
+export type OptimizedFormat = 'webp' | 'avif'
+
+export interface ImageOptimizationSettings {
+  enabled: boolean
+  maxWidth: number
+  maxHeight: number
+  format: OptimizedFormat
+  quality: number // 1-100
+}
+
+export const DEFAULT_IMAGE_OPTIMIZATION: ImageOptimizationSettings = {
+  enabled: false,
+  maxWidth: 2560,
+  maxHeight: 2560,
+  format: 'webp',
+  quality: 80
+}
+
+// Raster formats the browser can decode; GIFs are left alone so animations survive
+const OPTIMIZABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/bmp']
+
+export const isOptimizableImage = (contentType: string) => OPTIMIZABLE_TYPES.includes(contentType.toLowerCase())
+
+// The file that will be sent to Contentful for a queue item
+export const getFileToUpload = (upload: Pick<UploadFile, 'file' | 'optimizedFile' | 'useOriginal'>): File =>
+  upload.optimizedFile && !upload.useOriginal ? upload.optimizedFile : upload.file
+
+// Re-encoding through a canvas drops EXIF, GPS and other embedded metadata
+export const optimizeImage = async (file: File, settings: ImageOptimizationSettings): Promise<File> => {
+  // Browsers apply the EXIF orientation while decoding, so rotated photos stay upright
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = Math.min(1, settings.maxWidth / bitmap.width, settings.maxHeight / bitmap.height)
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas is not available')
+    }
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    const type = `image/${settings.format}`
+    const blob = await canvas.convertToBlob({ type, quality: settings.quality / 100 })
+    // Browsers fall back to PNG for formats they can't encode
+    if (blob.type !== type) {
+      throw new Error(`This browser cannot encode ${settings.format.toUpperCase()} images`)
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '')
+    return new File([blob], `${baseName}.${settings.format}`, { type, lastModified: file.lastModified })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,78 @@
+const DB_NAME = 'contentful-uploader'
+const DB_VERSION = 2
+
+export type StoreName = 'sessions' | 'queue' | 'queueBlobs'
+
+const STORE_NAMES: StoreName[] = ['sessions', 'queue', 'queueBlobs']
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+
+// One shared connection; object stores are created on first use and on version bumps
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' })
+          }
+        })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Could not open IndexedDB'))
+    })
+    // Let a later call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+  return toPromise(action(db.transaction(storeName, mode).objectStore(storeName)))
+}
+
+export const getAllRecords = <T>(storeName: StoreName) =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>)
+
+export const putRecord = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, 'readwrite', store => store.put(value))
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey) =>
+  withStore(storeName, 'readwrite', store => store.delete(key))
+
+export const clearRecords = (storeName: StoreName) =>
+  withStore(storeName, 'readwrite', store => store.clear())
+
+// Writes and deletes in one transaction, which resolves once everything is committed
+export const updateRecords = async <T>(storeName: StoreName, puts: T[], deletes: IDBValidKey[] = []) => {
+  if (puts.length === 0 && deletes.length === 0) return
+  const db = await openDatabase()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+    puts.forEach(value => store.put(value))
+    deletes.forEach(key => store.delete(key))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'))
+  })
+}
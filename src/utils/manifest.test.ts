@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { applyManifestEntry, findManifestEntry, isManifestFile, parseManifestCsv, parseManifestFile, parseManifestJson } from './manifest'
+
+describe('parseManifestCsv', () => {
+  it('reads the key, text and tag columns', () => {
+    const csv = 'File,Title,Alt Text,Tags\nhero.jpg,Hero,A mountain,landscape; summer\n'
+    expect(parseManifestCsv(csv)).toEqual([
+      { key: 'hero.jpg', title: 'Hero', altText: 'A mountain', tags: ['landscape', 'summer'] }
+    ])
+  })
+
+  it('handles quoted cells, CRLF line endings and a byte order mark', () => {
+    const csv = '\uFEFFfilename,description\r\n"a, b.png","Line one\nsays ""hi"""\r\n'
+    expect(parseManifestCsv(csv)).toEqual([{ key: 'a, b.png', description: 'Line one\nsays "hi"' }])
+  })
+
+  it('puts "title:de-DE" style columns into locales', () => {
+    const csv = 'file,title,title:de-DE,description.fr\nhero.jpg,Hero,Held,Héros\n'
+    expect(parseManifestCsv(csv)).toEqual([
+      { key: 'hero.jpg', title: 'Hero', locales: { 'de-DE': { title: 'Held' }, fr: { description: 'Héros' } } }
+    ])
+  })
+
+  it('skips blank rows, rows without a key and empty values', () => {
+    const csv = 'file,title\n\n,Orphan\nhero.jpg,\n'
+    expect(parseManifestCsv(csv)).toEqual([{ key: 'hero.jpg' }])
+  })
+
+  it('rejects a manifest without a key column', () => {
+    expect(() => parseManifestCsv('title,description\nHero,Text\n')).toThrow(/file or filename or path or name column/)
+  })
+})
+
+describe('parseManifestJson', () => {
+  it('reads an array of records with a key field', () => {
+    const json = JSON.stringify([{ file: 'hero.jpg', title: 'Hero', tags: ['a', ' b '] }, { title: 'No key' }])
+    expect(parseManifestJson(json)).toEqual([{ key: 'hero.jpg', title: 'Hero', tags: ['a', 'b'] }])
+  })
+
+  it('reads an object keyed by file name with per-locale maps', () => {
+    const json = JSON.stringify({ 'hero.jpg': { description: { 'en-US': 'Hero', de: 'Held' }, keywords: 'x|y' } })
+    expect(parseManifestJson(json)).toEqual([
+      { key: 'hero.jpg', tags: ['x', 'y'], locales: { 'en-US': { description: 'Hero' }, de: { description: 'Held' } } }
+    ])
+  })
+})
+
+describe('parseManifestFile', () => {
+  it('picks the parser from the file extension', async () => {
+    expect(isManifestFile(new File([''], 'Manifest.JSON'))).toBe(true)
+    const manifest = await parseManifestFile(new File(['[{"name":"a.png","alt":"A"}]'], 'manifest.json'))
+    expect(manifest).toEqual({ fileName: 'manifest.json', entries: [{ key: 'a.png', altText: 'A' }] })
+  })
+})
+
+describe('findManifestEntry', () => {
+  const manifest = {
+    fileName: 'manifest.csv',
+    entries: [
+      { key: 'hero.jpg', title: 'Any hero' },
+      { key: './summer/hero.jpg', title: 'Summer hero' },
+      { key: 'winter\\snow.jpg', title: 'Snow' }
+    ]
+  }
+
+  it('prefers the relative path over the bare file name', () => {
+    expect(findManifestEntry(manifest, { file: new File([''], 'hero.jpg'), folderPath: 'summer' })?.title).toBe('Summer hero')
+    expect(findManifestEntry(manifest, { file: new File([''], 'HERO.jpg'), folderPath: 'autumn' })?.title).toBe('Any hero')
+  })
+
+  it('matches a path recorded below the dropped folder', () => {
+    expect(findManifestEntry(manifest, { file: new File([''], 'snow.jpg'), folderPath: 'photos/winter' })?.title).toBe('Snow')
+  })
+})
+
+describe('applyManifestEntry', () => {
+  it('uses alt text as the description and appends tags', () => {
+    const upload = { file: new File([''], 'hero.jpg'), title: 'Old', tags: ['existing'] }
+    const result = applyManifestEntry(upload, {
+      key: 'hero.jpg',
+      altText: 'A mountain',
+      tags: ['new'],
+      locales: { de: { altText: 'Ein Berg' } }
+    })
+
+    expect(result).toMatchObject({
+      title: 'Old',
+      description: 'A mountain',
+      altText: 'A mountain',
+      tags: ['existing', 'new'],
+      localeFields: { de: { description: 'Ein Berg' } }
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import type { LocaleFieldValues, NewUploadFile } from '../store/useAppStore'
+
+export interface ManifestValues {
+  title?: string
+  description?: string
+  altText?: string
+}
+
+export interface ManifestEntry extends ManifestValues {
+  key: string // file name or path relative to the drop
+  tags?: string[]
+  locales?: Record<string, ManifestValues>
+}
+
+export interface Manifest {
+  fileName: string
+  entries: ManifestEntry[]
+}
+
+const MANIFEST_NAMES = ['manifest.csv', 'manifest.json']
+
+export const isManifestFile = (file: File) => MANIFEST_NAMES.includes(file.name.toLowerCase())
+
+const normalizeKey = (key: string) => key.replace(/\\/g, '/').replace(/^(\.?\/)+/, '').toLowerCase()
+
+const KEY_COLUMNS = ['file', 'filename', 'path', 'name']
+const TAG_COLUMNS = ['tags', 'keywords']
+
+// "Alt text", "alt_text" and "altText" all map to altText
+const toField = (name: string): keyof ManifestValues | undefined => {
+  const compact = name.toLowerCase().replace(/[^a-z]/g, '')
+  if (compact === 'title') return 'title'
+  if (compact === 'description') return 'description'
+  if (compact === 'alt' || compact === 'alttext') return 'altText'
+  return undefined
+}
+
+const splitTags = (value: string) => value.split(/[;|,]/).map(tag => tag.trim()).filter(Boolean)
+
+// RFC 4180 rows: quoted cells may contain commas, newlines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
+
+const setValue = (entry: ManifestEntry, field: keyof ManifestValues, value: string, locale?: string) => {
+  const trimmed = value.trim()
+  if (!trimmed) return
+  if (locale) {
+    entry.locales = { ...entry.locales, [locale]: { ...entry.locales?.[locale], [field]: trimmed } }
+  } else {
+    entry[field] = trimmed
+  }
+}
+
+// Columns: file, title, description, alt, tags; "title:de-DE" style headers hold per-locale values
+export const parseManifestCsv = (text: string): ManifestEntry[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return []
+
+  const columns = header.map(name => {
+    const match = name.trim().match(/^(.*?)[:.]([a-z]{2,3}(?:-[a-z0-9]+)*)$/i)
+    const base = match ? match[1] : name
+    return { name: base.toLowerCase().trim(), field: toField(base), locale: match?.[2] }
+  })
+  const keyIndex = columns.findIndex(column => KEY_COLUMNS.includes(column.name))
+  if (keyIndex === -1) {
+    throw new Error(`Manifest needs a ${KEY_COLUMNS.join(' or ')} column`)
+  }
+
+  return rows.flatMap(cells => {
+    const key = cells[keyIndex]?.trim()
+    if (!key) return []
+
+    const entry: ManifestEntry = { key }
+    columns.forEach((column, index) => {
+      const value = cells[index] ?? ''
+      if (TAG_COLUMNS.includes(column.name)) {
+        const tags = splitTags(value)
+        if (tags.length > 0) entry.tags = tags
+      } else if (column.field) {
+        setValue(entry, column.field, value, column.locale)
+      }
+    })
+    return [entry]
+  })
+}
+
+// Accepts an array of objects with a "file" key, or an object keyed by file name.
+// Title, description and alt may be strings or { "<locale>": string } maps.
+export const parseManifestJson = (text: string): ManifestEntry[] => {
+  const data: unknown = JSON.parse(text)
+  const records: [string | undefined, Record<string, unknown>][] = Array.isArray(data)
+    ? data.map(item => [undefined, item as Record<string, unknown>])
+    : Object.entries((data ?? {}) as Record<string, Record<string, unknown>>)
+
+  return records.flatMap(([mapKey, record]) => {
+    if (!record || typeof record !== 'object') return []
+    const keyName = Object.keys(record).find(name => KEY_COLUMNS.includes(name.toLowerCase()))
+    const key = mapKey ?? (keyName ? String(record[keyName]).trim() : '')
+    if (!key) return []
+
+    const entry: ManifestEntry = { key }
+    Object.entries(record).forEach(([name, value]) => {
+      if (TAG_COLUMNS.includes(name.toLowerCase())) {
+        const tags = Array.isArray(value) ? value.map(String).map(tag => tag.trim()).filter(Boolean) : splitTags(String(value ?? ''))
+        if (tags.length > 0) entry.tags = tags
+        return
+      }
+      const field = toField(name)
+      if (!field) return
+      if (typeof value === 'string') {
+        setValue(entry, field, value)
+      } else if (value && typeof value === 'object') {
+        Object.entries(value as Record<string, unknown>).forEach(([locale, text]) => {
+          if (typeof text === 'string') setValue(entry, field, text, locale)
+        })
+      }
+    })
+    return [entry]
+  })
+}
+
+export const parseManifestFile = async (file: File): Promise<Manifest> => {
+  const text = await file.text()
+  const entries = file.name.toLowerCase().endsWith('.json') ? parseManifestJson(text) : parseManifestCsv(text)
+  return { fileName: file.name, entries }
+}
+
+// Relative paths win over bare file names, so two "hero.jpg" files in different folders can differ
+export const findManifestEntry = (
+  manifest: Manifest | undefined,
+  { file, folderPath }: Pick<NewUploadFile, 'file' | 'folderPath'>
+): ManifestEntry | undefined => {
+  if (!manifest) return undefined
+  const name = file.name.toLowerCase()
+  const path = folderPath ? normalizeKey(`${folderPath}/${file.name}`) : name
+  const byPath = manifest.entries.find(entry => normalizeKey(entry.key) === path)
+  if (byPath) return byPath
+  return manifest.entries.find(entry => normalizeKey(entry.key) === name)
+    // A path in the manifest still matches when only the part below the dropped folder was recorded
+    ?? manifest.entries.find(entry => path.endsWith(`/${normalizeKey(entry.key)}`))
+}
+
+// Alt text doubles as the description, since Contentful assets have no separate alt field
+export const applyManifestEntry = <T extends NewUploadFile>(upload: T, entry: ManifestEntry): T => {
+  const localeFields: LocaleFieldValues = { ...upload.localeFields }
+  Object.entries(entry.locales ?? {}).forEach(([code, values]) => {
+    localeFields[code] = {
+      ...localeFields[code],
+      ...(values.title && { title: values.title }),
+      ...((values.description ?? values.altText) && { description: values.description ?? values.altText })
+    }
+  })
+
+  return {
+    ...upload,
+    title: entry.title ?? upload.title,
+    description: entry.description ?? entry.altText ?? upload.description,
+    altText: entry.altText ?? upload.altText,
+    localeFields: Object.keys(localeFields).length > 0 ? localeFields : undefined,
+    tags: entry.tags ? [...(upload.tags ?? []), ...entry.tags] : upload.tags
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { applyNamingRules, DEFAULT_NAMING_RULES, getPatternError, renderTemplate, resolveAssetText, type NamingRules } from './naming'
+
+const file = new File([''], 'summer_beach-01.JPG')
+const date = new Date(2026, 0, 5)
+
+const rules = (overrides: Partial<NamingRules>): NamingRules => ({ ...DEFAULT_NAMING_RULES, ...overrides })
+
+describe('renderTemplate', () => {
+  it('fills every token', () => {
+    const template = '{basename}|{ext}|{folder}|{path}|{date}|{index}|{filename}'
+    expect(renderTemplate(template, DEFAULT_NAMING_RULES, { file, folderPath: 'photos/2026', index: 3, date }))
+      .toBe('summer_beach-01|JPG|2026|photos/2026|2026-01-05|3|summer_beach-01.JPG')
+  })
+
+  it('leaves unknown tokens as they are', () => {
+    expect(renderTemplate('{unknown} {basename}', DEFAULT_NAMING_RULES, { file, index: 1 })).toBe('{unknown} summer_beach-01')
+  })
+
+  it('applies replacements in order, then strips the extension and title-cases', () => {
+    const naming = rules({
+      replacements: [{ find: '[_-]', replace: ' ' }, { find: '(\\d+)', replace: '#$1' }],
+      stripExtension: true,
+      titleCase: true
+    })
+    expect(renderTemplate('{filename}', naming, { file, index: 1 })).toBe('Summer Beach #01')
+  })
+
+  it('skips invalid patterns', () => {
+    const naming = rules({ replacements: [{ find: '(', replace: '' }, { find: 'beach', replace: 'coast' }] })
+    expect(renderTemplate('{basename}', naming, { file, index: 1 })).toBe('summer_coast-01')
+  })
+
+  it('collapses whitespace and falls back to the file name when empty', () => {
+    expect(renderTemplate('  {folder}  ', DEFAULT_NAMING_RULES, { file, index: 1 })).toBe('summer_beach-01.JPG')
+  })
+})
+
+describe('getPatternError', () => {
+  it('only reports patterns that do not compile', () => {
+    expect(getPatternError('\\d+')).toBeUndefined()
+    expect(getPatternError('[a-')).toEqual(expect.any(String))
+  })
+})
+
+describe('applyNamingRules', () => {
+  it('renders the title and description templates', () => {
+    const naming = rules({ titleTemplate: '{basename}', descriptionTemplate: '{folder}: {filename}' })
+    expect(applyNamingRules(naming, { file, folderPath: 'beach', index: 1 })).toEqual({
+      title: 'summer_beach-01',
+      description: 'beach: summer_beach-01.JPG'
+    })
+  })
+})
+
+describe('resolveAssetText', () => {
+  it('prefers explicit values and appends the credit to the description', () => {
+    expect(resolveAssetText(DEFAULT_NAMING_RULES, { file, title: 'Given title', credit: '© Someone' }, 1)).toEqual({
+      title: 'Given title',
+      description: 'summer_beach-01.JPG\n© Someone'
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import type { UploadFile } from '../store/useAppStore'
+
+export interface NamingReplacement {
+  find: string // regular expression
+  replace: string // may use $1-style groups
+}
+
+export interface NamingRules {
+  titleTemplate: string
+  descriptionTemplate: string
+  replacements: NamingReplacement[]
+  stripExtension: boolean
+  titleCase: boolean
+}
+
+export interface NamingContext {
+  file: File
+  folderPath?: string
+  index: number // 1-based position in the queue
+  date?: Date
+}
+
+export const NAMING_TOKENS = ['{filename}', '{basename}', '{ext}', '{folder}', '{path}', '{date}', '{index}']
+
+// Matches the previous behaviour of using the file name for both fields
+export const DEFAULT_NAMING_RULES: NamingRules = {
+  titleTemplate: '{filename}',
+  descriptionTemplate: '{filename}',
+  replacements: [],
+  stripExtension: false,
+  titleCase: false
+}
+
+const EXTENSION_PATTERN = /\.[a-z0-9]{1,5}$/i
+
+// Returns an error message for patterns the browser can't compile
+export const getPatternError = (pattern: string): string | undefined => {
+  try {
+    new RegExp(pattern)
+    return undefined
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern'
+  }
+}
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const toTitleCase = (value: string) =>
+  value.replace(/(^|\s)(\S)(\S*)/g, (_match, space: string, first: string, rest: string) =>
+    `${space}${first.toUpperCase()}${rest.toLowerCase()}`
+  )
+
+export const renderTemplate = (template: string, rules: NamingRules, { file, folderPath, index, date = new Date() }: NamingContext) => {
+  const extension = file.name.match(EXTENSION_PATTERN)?.[0] ?? ''
+  const values: Record<string, string> = {
+    filename: file.name,
+    basename: extension ? file.name.slice(0, -extension.length) : file.name,
+    ext: extension.slice(1),
+    folder: folderPath?.split('/').pop() ?? '',
+    path: folderPath ?? '',
+    date: formatDate(date),
+    index: String(index)
+  }
+
+  let result = template.replace(/\{(\w+)\}/g, (token, name: string) => values[name] ?? token)
+
+  // Invalid patterns are skipped; Settings flags them while editing
+  for (const { find, replace } of rules.replacements) {
+    if (!find || getPatternError(find)) continue
+    result = result.replace(new RegExp(find, 'g'), replace)
+  }
+
+  if (rules.stripExtension) {
+    result = result.replace(EXTENSION_PATTERN, '')
+  }
+  if (rules.titleCase) {
+    result = toTitleCase(result)
+  }
+
+  return result.replace(/\s+/g, ' ').trim() || file.name
+}
+
+export const applyNamingRules = (rules: NamingRules, context: NamingContext) => ({
+  title: renderTemplate(rules.titleTemplate, rules, context),
+  description: renderTemplate(rules.descriptionTemplate, rules, context)
+})
+
+// Explicit values from a manifest, embedded metadata or the folder prefix win over the rules
+export const resolveAssetText = (
+  rules: NamingRules,
+  upload: Pick<UploadFile, 'file' | 'folderPath' | 'title' | 'description' | 'credit'>,
+  index: number,
+  date?: Date
+) => {
+  const generated = applyNamingRules(rules, { file: upload.file, folderPath: upload.folderPath, index, date })
+  const description = upload.description ?? generated.description
+  return {
+    title: upload.title ?? generated.title,
+    // Assets have no credit field, so the credit line goes on its own line in the description
+    description: upload.credit ? `${description}\n${upload.credit}` : description
+  }
+}
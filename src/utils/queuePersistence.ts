@@ -0,0 +1,91 @@
+import type { UploadFile } from '../store/useAppStore'
+import { clearRecords, getAllRecords, updateRecords } from './indexedDb'
+
+// Everything about a queued file except its contents, rewritten as the upload progresses
+export type SavedQueueFile = Omit<UploadFile, 'file' | 'optimizedFile'> & {
+  spaceId: string
+  environmentId: string
+}
+
+// The file contents are kept apart so progress updates don't rewrite them
+interface SavedQueueBlob {
+  id: string
+  file: File
+  optimizedFile?: File
+}
+
+export interface SavedQueue {
+  spaceId: string
+  environmentId: string
+  files: UploadFile[]
+}
+
+interface QueueTarget {
+  spaceId: string
+  environmentId: string
+}
+
+const toSavedQueueFile = (file: UploadFile, target: QueueTarget): SavedQueueFile => {
+  const record: SavedQueueFile & Partial<Pick<UploadFile, 'file' | 'optimizedFile'>> = { ...file, ...target }
+  delete record.file
+  delete record.optimizedFile
+  return record
+}
+
+// Writes what changed between two snapshots of the queue
+export const saveQueueChanges = async (previous: UploadFile[], next: UploadFile[], target: QueueTarget) => {
+  const previousById = new Map(previous.map(file => [file.id, file]))
+  const nextIds = new Set(next.map(file => file.id))
+  const removedIds = previous.filter(file => !nextIds.has(file.id)).map(file => file.id)
+
+  const changed = next.filter(file => previousById.get(file.id) !== file)
+  const blobs: SavedQueueBlob[] = changed
+    .filter(file => {
+      const before = previousById.get(file.id)
+      return !before || before.file !== file.file || before.optimizedFile !== file.optimizedFile
+    })
+    .map(({ id, file, optimizedFile }) => ({ id, file, optimizedFile }))
+  const records = changed.map(file => toSavedQueueFile(file, target))
+
+  // Blobs first, so a saved record always has its contents
+  await updateRecords('queueBlobs', blobs, removedIds)
+  await updateRecords('queue', records, removedIds)
+}
+
+// A queue is only worth resuming while some of its files are still to be uploaded
+const isUnfinished = (file: Pick<UploadFile, 'status'>) => file.status === 'pending' || file.status === 'processing'
+
+// Returns null, and clears what was saved, when there is nothing left to resume
+export const loadSavedQueue = async (): Promise<SavedQueue | null> => {
+  const [records, blobs] = await Promise.all([
+    getAllRecords<SavedQueueFile>('queue'),
+    getAllRecords<SavedQueueBlob>('queueBlobs')
+  ])
+  const blobsById = new Map(blobs.map(blob => [blob.id, blob]))
+
+  const files: UploadFile[] = records.flatMap(record => {
+    const blob = blobsById.get(record.id)
+    if (!blob) return []
+    return [{
+      ...record,
+      file: blob.file,
+      optimizedFile: blob.optimizedFile,
+      // Live transfer figures mean nothing after a reload
+      uploadSpeed: undefined,
+      estimatedTimeRemaining: undefined,
+      nextRetryAt: undefined,
+      optimization: record.optimization === 'running' ? undefined : record.optimization
+    }]
+  })
+
+  if (!files.some(isUnfinished)) {
+    if (records.length > 0 || blobs.length > 0) await clearSavedQueue()
+    return null
+  }
+  return { spaceId: records[0].spaceId, environmentId: records[0].environmentId, files }
+}
+
+export const clearSavedQueue = async () => {
+  await clearRecords('queue')
+  await clearRecords('queueBlobs')
+}
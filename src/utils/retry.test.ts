@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getRetryDelay, runWithRetries, waitForRetry } from './retry'
+
+const policy = { maxAttempts: 5, baseDelayMs: 1000 }
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+describe('getRetryDelay', () => {
+  it('doubles the backoff with each attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(attempt, policy))).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it('jitters between half and all of the backoff', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(getRetryDelay(3, policy)).toBe(2000)
+  })
+
+  it('caps the backoff at a minute', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect(getRetryDelay(20, policy)).toBe(60000)
+  })
+
+  it('waits at least as long as the server asks', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect(getRetryDelay(1, policy, 5000)).toBe(5000)
+    expect(getRetryDelay(4, policy, 5000)).toBe(8000)
+  })
+})
+
+describe('waitForRetry', () => {
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers()
+    const resolved = vi.fn()
+    void waitForRetry(1000).then(resolved)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(resolved).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(resolved).toHaveBeenCalled()
+  })
+
+  it('resolves early when aborted', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const resolved = vi.fn()
+    void waitForRetry(60000, controller.signal).then(resolved)
+
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(resolved).toHaveBeenCalled()
+  })
+})
+
+describe('runWithRetries', () => {
+  const retryable = { success: false, retryable: true }
+
+  it('stops at the first success', async () => {
+    vi.useFakeTimers()
+    const task = vi.fn()
+      .mockResolvedValueOnce(retryable)
+      .mockResolvedValueOnce({ success: true })
+    const onRetry = vi.fn()
+
+    const done = runWithRetries(task, policy, { onRetry })
+    await vi.runAllTimersAsync()
+
+    expect(await done).toEqual({ success: true })
+    expect(task).toHaveBeenCalledTimes(2)
+    expect(onRetry).toHaveBeenCalledWith(retryable, 1, expect.any(Number))
+  })
+
+  it('gives up after the last attempt and on permanent failures', async () => {
+    vi.useFakeTimers()
+    const task = vi.fn().mockResolvedValue(retryable)
+    const done = runWithRetries(task, policy)
+    await vi.runAllTimersAsync()
+    expect(await done).toBe(retryable)
+    expect(task).toHaveBeenCalledTimes(5)
+
+    const permanent = vi.fn().mockResolvedValue({ success: false })
+    await runWithRetries(permanent, policy)
+    expect(permanent).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits for the server hint before retrying', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    const task = vi.fn()
+      .mockResolvedValueOnce({ ...retryable, retryAfterMs: 30000 })
+      .mockResolvedValueOnce({ success: true })
+
+    void runWithRetries(task, policy)
+    await vi.advanceTimersByTimeAsync(29999)
+    expect(task).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops retrying once aborted', async () => {
+    const controller = new AbortController()
+    const task = vi.fn().mockImplementation(async () => {
+      controller.abort()
+      return retryable
+    })
+    await runWithRetries(task, policy, { signal: controller.signal })
+    expect(task).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,56 @@
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+}
+
+const MAX_BACKOFF_MS = 60 * 1000
+
+// Exponential backoff with full jitter; a server-provided wait always wins if it is longer
+export const getRetryDelay = (attempt: number, policy: RetryPolicy, serverWaitMs?: number): number => {
+  const backoff = Math.min(MAX_BACKOFF_MS, policy.baseDelayMs * Math.pow(2, attempt - 1))
+  const jittered = Math.round(backoff / 2 + Math.random() * (backoff / 2))
+  return Math.max(jittered, serverWaitMs ?? 0)
+}
+
+export const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export interface RetryableResult {
+  success: boolean
+  retryable?: boolean
+  retryAfterMs?: number
+}
+
+// Repeats a task until it succeeds, fails for good, runs out of attempts or is aborted
+export const runWithRetries = async <T extends RetryableResult>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  { signal, onRetry }: { signal?: AbortSignal; onRetry?: (result: T, attempt: number, delayMs: number) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const result = await task(attempt)
+    if (result.success || !result.retryable || attempt >= policy.maxAttempts || signal?.aborted) {
+      return result
+    }
+
+    const delay = getRetryDelay(attempt, policy, result.retryAfterMs)
+    onRetry?.(result, attempt, delay)
+    await waitForRetry(delay, signal)
+  }
+}
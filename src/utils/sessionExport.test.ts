@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { buildSessionExport, downloadSessionExport } from './sessionExport'
+import type { SessionFileRecord } from './sessionHistory'
+
+const files: SessionFileRecord[] = [
+  {
+    name: 'hero.jpg',
+    path: 'summer/hero.jpg',
+    size: 2048,
+    status: 'completed',
+    assetId: 'abc123',
+    tags: ['summer', 'beach'],
+    startTime: Date.UTC(2026, 0, 5, 10, 0, 0),
+    endTime: Date.UTC(2026, 0, 5, 10, 0, 2)
+  },
+  {
+    name: 'notes, "draft".pdf',
+    path: 'notes, "draft".pdf',
+    size: 10,
+    status: 'failed',
+    error: 'Line one\nLine two',
+    tags: []
+  }
+]
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('buildSessionExport', () => {
+  it('writes CSV with labelled headers in the picker order', () => {
+    const csv = buildSessionExport(files, ['durationMs', 'tags', 'fileName', 'startTime'], 'csv')
+    expect(csv.split('\r\n')).toEqual([
+      'File name,Tags,Started,Duration (ms)',
+      'hero.jpg,summer; beach,2026-01-05T10:00:00.000Z,2000',
+      '"notes, ""draft"".pdf",,,'
+    ])
+  })
+
+  it('quotes cells with line breaks', () => {
+    expect(buildSessionExport(files.slice(1), ['error'], 'csv')).toBe('Error\r\n"Line one\nLine two"')
+  })
+
+  it('writes JSON with column IDs and null for missing values', () => {
+    expect(JSON.parse(buildSessionExport(files, ['fileName', 'assetId', 'tags'], 'json'))).toEqual([
+      { fileName: 'hero.jpg', assetId: 'abc123', tags: ['summer', 'beach'] },
+      { fileName: 'notes, "draft".pdf', assetId: null, tags: [] }
+    ])
+  })
+})
+
+describe('downloadSessionExport', () => {
+  it('names the file after the date and revokes the URL only after a delay', () => {
+    vi.useFakeTimers()
+    const link = { href: '', download: '', click: vi.fn() }
+    vi.stubGlobal('document', { createElement: () => link })
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:export')
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+
+    downloadSessionExport('a,b', 'csv', new Date(Date.UTC(2026, 0, 5, 10, 30, 15)))
+
+    expect(link.download).toBe('contentful-upload-2026-01-05T10-30-15.csv')
+    expect(link.click).toHaveBeenCalled()
+    vi.advanceTimersByTime(1000)
+    expect(revoke).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(60 * 1000)
+    expect(revoke).toHaveBeenCalledWith('blob:export')
+  })
+})
@@ -0,0 +1,100 @@
+import type { SessionFileRecord } from './sessionHistory'
+
+export type ExportFormat = 'csv' | 'json'
+
+export type ExportColumn =
+  | 'fileName'
+  | 'path'
+  | 'size'
+  | 'status'
+  | 'error'
+  | 'assetId'
+  | 'assetUrl'
+  | 'contentfulUrl'
+  | 'entryId'
+  | 'entryUrl'
+  | 'tags'
+  | 'startTime'
+  | 'endTime'
+  | 'durationMs'
+
+export const EXPORT_COLUMNS: { value: ExportColumn; label: string }[] = [
+  { value: 'fileName', label: 'File name' },
+  { value: 'path', label: 'Relative path' },
+  { value: 'size', label: 'Size (bytes)' },
+  { value: 'status', label: 'Status' },
+  { value: 'error', label: 'Error' },
+  { value: 'assetId', label: 'Asset ID' },
+  { value: 'assetUrl', label: 'CDN URL' },
+  { value: 'contentfulUrl', label: 'Web app URL' },
+  { value: 'entryId', label: 'Entry ID' },
+  { value: 'entryUrl', label: 'Entry URL' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'startTime', label: 'Started' },
+  { value: 'endTime', label: 'Finished' },
+  { value: 'durationMs', label: 'Duration (ms)' }
+]
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = EXPORT_COLUMNS.map(column => column.value)
+
+// Long enough for the browser to have started reading the blob
+const REVOKE_DELAY_MS = 60 * 1000
+
+type ExportValue = string | number | string[] | undefined
+
+const getColumnValue = (file: SessionFileRecord, column: ExportColumn): ExportValue => {
+  switch (column) {
+    case 'fileName': return file.name
+    case 'path': return file.path
+    case 'size': return file.size
+    case 'status': return file.status
+    case 'error': return file.error
+    case 'assetId': return file.assetId
+    case 'assetUrl': return file.assetUrl
+    case 'contentfulUrl': return file.contentfulUrl
+    case 'entryId': return file.entryId
+    case 'entryUrl': return file.entryUrl
+    case 'tags': return file.tags
+    case 'startTime': return file.startTime ? new Date(file.startTime).toISOString() : undefined
+    case 'endTime': return file.endTime ? new Date(file.endTime).toISOString() : undefined
+    case 'durationMs': return file.startTime && file.endTime ? file.endTime - file.startTime : undefined
+  }
+}
+
+const toCsvCell = (value: ExportValue) => {
+  const text = Array.isArray(value) ? value.join('; ') : String(value ?? '')
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const buildSessionExport = (files: SessionFileRecord[], columns: ExportColumn[], format: ExportFormat): string => {
+  // Columns keep the order they're listed in, whatever order they were ticked in
+  const selected = DEFAULT_EXPORT_COLUMNS.filter(column => columns.includes(column))
+
+  if (format === 'json') {
+    const rows = files.map(file =>
+      Object.fromEntries(selected.map(column => [column, getColumnValue(file, column) ?? null]))
+    )
+    return JSON.stringify(rows, null, 2)
+  }
+
+  // Headers use the labels shown in the column picker; JSON keeps the stable IDs
+  const header = selected
+    .map(column => toCsvCell(EXPORT_COLUMNS.find(c => c.value === column)?.label ?? column))
+    .join(',')
+  const lines = files.map(file =>
+    selected.map(column => toCsvCell(getColumnValue(file, column))).join(',')
+  )
+  return [header, ...lines].join('\r\n')
+}
+
+// Named after the session's start so re-exports of the same session get the same name
+export const downloadSessionExport = (content: string, format: ExportFormat, date = new Date()) => {
+  const type = format === 'json' ? 'application/json' : 'text/csv'
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `contentful-upload-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.${format}`
+  link.click()
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
@@ -0,0 +1,79 @@
+import type { UploadFile } from '../store/useAppStore'
+import { clearRecords, deleteRecord, getAllRecords, putRecord } from './indexedDb'
+
+// What is kept of a queued file once the File object itself is gone
+export interface SessionFileRecord {
+  name: string
+  path: string // relative to the drop, including the file name
+  size: number
+  status: UploadFile['status']
+  error?: string
+  assetId?: string
+  assetUrl?: string
+  contentfulUrl?: string
+  entryId?: string
+  entryUrl?: string
+  tags: string[] // session and per-file tags
+  startTime?: number
+  endTime?: number
+}
+
+export interface SessionRecord {
+  id: string
+  startedAt: number
+  endedAt?: number
+  spaceId: string
+  environmentId: string
+  profileName?: string // connection profile the session ran under
+  tags: string[] // session tags
+  files: SessionFileRecord[]
+}
+
+export const toSessionFileRecord = (file: UploadFile, sessionTags: string[] = []): SessionFileRecord => ({
+  name: file.file.name,
+  path: file.folderPath ? `${file.folderPath}/${file.file.name}` : file.file.name,
+  size: file.file.size,
+  status: file.status,
+  error: file.error ?? file.entryError,
+  assetId: file.assetId,
+  assetUrl: file.assetUrl,
+  contentfulUrl: file.contentfulUrl,
+  entryId: file.entryId,
+  entryUrl: file.entryUrl,
+  tags: Array.from(new Set([...sessionTags, ...(file.tags ?? [])])),
+  startTime: file.startTime,
+  endTime: file.endTime
+})
+
+export const saveSession = (session: SessionRecord) => putRecord('sessions', session)
+
+// Newest first
+export const listSessions = async () => {
+  const sessions = await getAllRecords<SessionRecord>('sessions')
+  return sessions.sort((a, b) => b.startedAt - a.startedAt)
+}
+
+export const deleteSession = (id: string) => deleteRecord('sessions', id)
+
+export const clearSessions = () => clearRecords('sessions')
+
+// Returns how many sessions were removed
+export const deleteSessionsBefore = async (timestamp: number) => {
+  const old = (await listSessions()).filter(session => session.startedAt < timestamp)
+  await Promise.all(old.map(session => deleteSession(session.id)))
+  return old.length
+}
+
+const includesQuery = (values: string[], query: string) => {
+  const needle = query.trim().toLowerCase()
+  return !needle || values.some(value => value.toLowerCase().includes(needle))
+}
+
+// Matches paths, asset and entry IDs, and tags
+export const matchesFileQuery = (file: SessionFileRecord, query: string) =>
+  includesQuery([file.path, file.assetId ?? '', file.entryId ?? '', ...file.tags], query)
+
+// Also matches the session's space, environment, profile and tags
+export const matchesSessionQuery = (session: SessionRecord, query: string) =>
+  includesQuery([session.spaceId, session.environmentId, session.profileName ?? '', ...session.tags], query) ||
+  session.files.some(file => matchesFileQuery(file, query))
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createVault, decryptTokens, encryptTokens, getPassphraseError, isVaultUnlocked, lockVault } from './tokenVault'
+
+const tokens = { default: 'CFPAT-default-secret', staging: 'CFPAT-staging-secret' }
+
+afterEach(() => {
+  lockVault()
+})
+
+describe('encryptTokens and decryptTokens', () => {
+  it('round-trips the tokens and unlocks the vault with the right passphrase', async () => {
+    await createVault('correct horse battery')
+    const payload = await encryptTokens(tokens)
+    lockVault()
+    expect(isVaultUnlocked()).toBe(false)
+
+    expect(await decryptTokens(payload, 'correct horse battery')).toEqual(tokens)
+    expect(isVaultUnlocked()).toBe(true)
+  })
+
+  it('keeps no plaintext in the payload and uses a fresh IV each time', async () => {
+    await createVault('correct horse battery')
+    const first = await encryptTokens(tokens)
+    const second = await encryptTokens(tokens)
+
+    expect(JSON.stringify(first)).not.toContain('secret')
+    expect(atob(first.data)).not.toContain('secret')
+    expect(first.salt).toBe(second.salt)
+    expect(first.iv).not.toBe(second.iv)
+  })
+
+  it('rejects a wrong passphrase and stays locked', async () => {
+    await createVault('correct horse battery')
+    const payload = await encryptTokens(tokens)
+    lockVault()
+
+    await expect(decryptTokens(payload, 'wrong horse battery')).rejects.toThrow('Wrong passphrase')
+    expect(isVaultUnlocked()).toBe(false)
+  })
+
+  it('refuses to encrypt while locked', async () => {
+    await expect(encryptTokens(tokens)).rejects.toThrow('The token vault is locked')
+  })
+})
+
+describe('getPassphraseError', () => {
+  it('needs eight characters and a matching confirmation', () => {
+    expect(getPassphraseError('1234567', '1234567')).toBe('Use at least 8 characters')
+    expect(getPassphraseError('12345678', '12345679')).toBe('The passphrases do not match')
+    expect(getPassphraseError('12345678', '12345678')).toBeUndefined()
+  })
+})
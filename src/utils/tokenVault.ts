@@ -0,0 +1,95 @@
+// How management tokens are kept between visits
+export type TokenStorageMode = 'plain' | 'encrypted' | 'session'
+
+export interface TokenStorageSettings {
+  mode: TokenStorageMode
+  autoLockMinutes: number // 0 never locks; only used when encrypted
+}
+
+export const DEFAULT_TOKEN_STORAGE: TokenStorageSettings = {
+  mode: 'plain',
+  autoLockMinutes: 15
+}
+
+export const TOKEN_STORAGE_MODES: { value: TokenStorageMode; label: string; description: string }[] = [
+  { value: 'plain', label: 'Remember tokens', description: 'Tokens are stored unencrypted in this browser.' },
+  { value: 'encrypted', label: 'Encrypt with a passphrase', description: 'Tokens are stored encrypted and unlocked with your passphrase on each visit.' },
+  { value: 'session', label: "Don't store tokens", description: 'Tokens are kept in memory and have to be entered again after a reload.' }
+]
+
+// Tokens by connection profile ID, encrypted with AES-GCM under a PBKDF2-derived key
+export interface EncryptedTokens {
+  salt: string // base64
+  iv: string // base64
+  data: string // base64
+  iterations: number
+}
+
+const PBKDF2_ITERATIONS = 310000
+const MIN_PASSPHRASE_LENGTH = 8
+
+// The derived key stays in memory only, so tokens can be re-encrypted as they change
+let unlockedKey: { key: CryptoKey; salt: Uint8Array<ArrayBuffer>; iterations: number } | null = null
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0))
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export const getPassphraseError = (passphrase: string, confirmation: string): string | undefined => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+  if (passphrase !== confirmation) return 'The passphrases do not match'
+  return undefined
+}
+
+export const isVaultUnlocked = () => unlockedKey !== null
+
+export const lockVault = () => {
+  unlockedKey = null
+}
+
+// Starts over with a new passphrase and salt
+export const createVault = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  unlockedKey = { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS }
+}
+
+export const encryptTokens = async (tokens: Record<string, string>): Promise<EncryptedTokens> => {
+  if (!unlockedKey) throw new Error('The token vault is locked')
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    unlockedKey.key,
+    new TextEncoder().encode(JSON.stringify(tokens))
+  )
+  return {
+    salt: toBase64(unlockedKey.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    iterations: unlockedKey.iterations
+  }
+}
+
+// Throws on a wrong passphrase; AES-GCM refuses to decrypt with the wrong key
+export const decryptTokens = async (payload: EncryptedTokens, passphrase: string): Promise<Record<string, string>> => {
+  const salt = fromBase64(payload.salt)
+  const key = await deriveKey(passphrase, salt, payload.iterations)
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data))
+  } catch {
+    throw new Error('Wrong passphrase')
+  }
+  unlockedKey = { key, salt, iterations: payload.iterations }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, string>
+}
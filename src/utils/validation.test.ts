@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_VALIDATION_PROFILE, parseAllowedTypes, validateFile, validateImageDimensions, type ValidationProfile } from './validation'
+
+const MB = 1024 * 1024
+
+const profile = (overrides: Partial<ValidationProfile> = {}): ValidationProfile => ({
+  id: 'test',
+  name: 'Web images',
+  allowedTypes: [],
+  maxSizeMb: 1,
+  ...overrides
+})
+
+const fileOfSize = (size: number, name = 'photo.jpg', type = 'image/jpeg') => new File([new Uint8Array(size)], name, { type })
+
+// Stands in for the browser's image decoder
+const stubImageSize = (width: number, height: number) => {
+  const close = vi.fn()
+  vi.stubGlobal('createImageBitmap', async () => ({ width, height, close }))
+  return close
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('parseAllowedTypes', () => {
+  it('splits on commas and spaces, lowercases and dots bare extensions', () => {
+    expect(parseAllowedTypes('Image/*, .GLB pdf,, image/*')).toEqual(['image/*', '.glb', '.pdf'])
+    expect(parseAllowedTypes('  ')).toEqual([])
+  })
+})
+
+describe('validateFile', () => {
+  it('accepts a file of exactly the size limit and rejects one byte more', () => {
+    expect(validateFile(fileOfSize(MB), profile())).toBeUndefined()
+    expect(validateFile(fileOfSize(MB + 1), profile())).toBe('Larger than the 1 MB limit')
+  })
+
+  it('allows every type when the list is empty', () => {
+    expect(validateFile(fileOfSize(1, 'model.glb', ''), profile())).toBeUndefined()
+  })
+
+  it('matches wildcards, exact types and extensions', () => {
+    const allowedTypes = ['image/*', 'application/pdf', '.glb']
+    expect(validateFile(fileOfSize(1, 'photo.PNG', 'image/png'), profile({ allowedTypes }))).toBeUndefined()
+    expect(validateFile(fileOfSize(1, 'doc.pdf', 'application/pdf'), profile({ allowedTypes }))).toBeUndefined()
+    expect(validateFile(fileOfSize(1, 'Model.GLB', ''), profile({ allowedTypes }))).toBeUndefined()
+    expect(validateFile(fileOfSize(1, 'clip.mp4', 'video/mp4'), profile({ allowedTypes })))
+      .toBe('video/mp4 is not allowed by the "Web images" profile')
+  })
+
+  it('does not take "image/" as a prefix of other types', () => {
+    expect(validateFile(fileOfSize(1, 'a.bin', 'imagex/foo'), profile({ allowedTypes: ['image/*'] })))
+      .toBe('imagex/foo is not allowed by the "Web images" profile')
+  })
+
+  it('falls back to the extension when the browser gives no type', () => {
+    const allowedTypes = ['text/csv']
+    expect(validateFile(fileOfSize(1, 'data.csv', ''), profile({ allowedTypes }))).toBeUndefined()
+    expect(validateFile(fileOfSize(1, 'data.unknown', ''), profile({ allowedTypes })))
+      .toBe('This file type is not allowed by the "Web images" profile')
+  })
+
+  it('lists every failed rule', () => {
+    expect(validateFile(fileOfSize(MB + 1, 'clip.mp4', 'video/mp4'), profile({ allowedTypes: ['image/*'] })))
+      .toBe('video/mp4 is not allowed by the "Web images" profile; Larger than the 1 MB limit')
+  })
+
+  it('uses the Contentful limit by default', () => {
+    expect(validateFile(fileOfSize(MB + 1), DEFAULT_VALIDATION_PROFILE)).toBeUndefined()
+  })
+})
+
+describe('validateImageDimensions', () => {
+  const limits = profile({ minWidth: 100, minHeight: 50, maxWidth: 4000, maxHeight: 3000 })
+  const image = fileOfSize(1)
+
+  it('accepts sizes exactly on the limits', async () => {
+    const close = stubImageSize(100, 50)
+    expect(await validateImageDimensions(image, limits)).toBeUndefined()
+    expect(close).toHaveBeenCalled()
+    stubImageSize(4000, 3000)
+    expect(await validateImageDimensions(image, limits)).toBeUndefined()
+  })
+
+  it('rejects one pixel below the minimum', async () => {
+    stubImageSize(99, 50)
+    expect(await validateImageDimensions(image, limits)).toBe('99×50 px is below the minimum of 100×50 px')
+    stubImageSize(100, 49)
+    expect(await validateImageDimensions(image, limits)).toBe('100×49 px is below the minimum of 100×50 px')
+  })
+
+  it('rejects one pixel above the maximum', async () => {
+    stubImageSize(4001, 3000)
+    expect(await validateImageDimensions(image, limits)).toBe('4001×3000 px is above the maximum of 4000×3000 px')
+    stubImageSize(4000, 3001)
+    expect(await validateImageDimensions(image, limits)).toBe('4000×3001 px is above the maximum of 4000×3000 px')
+  })
+
+  it('lists both failures and leaves unset limits open', async () => {
+    stubImageSize(99, 3001)
+    expect(await validateImageDimensions(image, limits))
+      .toBe('99×3001 px is below the minimum of 100×50 px; 99×3001 px is above the maximum of 4000×3000 px')
+    stubImageSize(10, 10)
+    expect(await validateImageDimensions(image, profile({ maxWidth: 5 })))
+      .toBe('10×10 px is above the maximum of 5×∞ px')
+  })
+
+  it('skips files it cannot or need not decode', async () => {
+    const decode = vi.fn(async () => {
+      throw new Error('Unsupported image')
+    })
+    vi.stubGlobal('createImageBitmap', decode)
+    expect(await validateImageDimensions(image, limits)).toBeUndefined()
+    expect(await validateImageDimensions(image, limits, 'application/pdf')).toBeUndefined()
+    expect(await validateImageDimensions(image, profile())).toBeUndefined()
+    expect(decode).toHaveBeenCalledTimes(1)
+  })
+})
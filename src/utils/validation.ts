@@ -0,0 +1,86 @@
+import { getTypeFromExtension } from './fileType'
+
+export interface ValidationProfile {
+  id: string
+  name: string
+  allowedTypes: string[] // MIME types (image/*, application/pdf) and extensions (.glb); empty allows everything
+  maxSizeMb: number
+  minWidth?: number
+  minHeight?: number
+  maxWidth?: number
+  maxHeight?: number
+}
+
+// Contentful accepts asset files of up to 1000 MB
+export const CONTENTFUL_MAX_SIZE_MB = 1000
+
+export const DEFAULT_VALIDATION_PROFILE: ValidationProfile = {
+  id: 'default',
+  name: 'Contentful limits',
+  allowedTypes: [],
+  maxSizeMb: CONTENTFUL_MAX_SIZE_MB
+}
+
+// Parses "image/*, .glb" into ['image/*', '.glb']
+export const parseAllowedTypes = (value: string): string[] =>
+  Array.from(new Set(
+    value
+      .split(/[\s,]+/)
+      .map(part => part.trim().toLowerCase())
+      .filter(Boolean)
+      .map(part => part.includes('/') || part.startsWith('.') ? part : `.${part}`)
+  ))
+
+// Browsers leave the type empty for formats they don't know, so the extension stands in for it
+const getDeclaredType = (file: File) => (file.type || getTypeFromExtension(file.name) || '').toLowerCase()
+
+const matchesAllowedType = (file: File, allowedTypes: string[]) => {
+  const name = file.name.toLowerCase()
+  const type = getDeclaredType(file)
+  return allowedTypes.some(allowed => {
+    if (allowed.startsWith('.')) return name.endsWith(allowed)
+    if (allowed.endsWith('/*')) return type.startsWith(allowed.slice(0, -1))
+    return type === allowed
+  })
+}
+
+const hasDimensionLimits = (profile: ValidationProfile) =>
+  Boolean(profile.minWidth || profile.minHeight || profile.maxWidth || profile.maxHeight)
+
+// Every failed rule is listed, the same way the dropzone joins its own errors
+const joinReasons = (reasons: (string | false | undefined)[]) => reasons.filter(Boolean).join('; ') || undefined
+
+// Checks that don't need to read the file; returns the rejection reason
+export const validateFile = (file: File, profile: ValidationProfile): string | undefined => joinReasons([
+  profile.allowedTypes.length > 0 && !matchesAllowedType(file, profile.allowedTypes) &&
+    `${getDeclaredType(file) || 'This file type'} is not allowed by the "${profile.name}" profile`,
+  file.size > profile.maxSizeMb * 1024 * 1024 && `Larger than the ${profile.maxSizeMb} MB limit`
+])
+
+// Decodes images only when the profile limits their dimensions
+export const validateImageDimensions = async (
+  file: File,
+  profile: ValidationProfile,
+  contentType = file.type
+): Promise<string | undefined> => {
+  if (!hasDimensionLimits(profile) || !contentType.startsWith('image/')) return undefined
+
+  let width: number
+  let height: number
+  try {
+    const bitmap = await createImageBitmap(file)
+    width = bitmap.width
+    height = bitmap.height
+    bitmap.close()
+  } catch {
+    // SVGs and formats the browser can't decode have no measurable size here
+    return undefined
+  }
+
+  const belowMinimum = Boolean((profile.minWidth && width < profile.minWidth) || (profile.minHeight && height < profile.minHeight))
+  const aboveMaximum = Boolean((profile.maxWidth && width > profile.maxWidth) || (profile.maxHeight && height > profile.maxHeight))
+  return joinReasons([
+    belowMinimum && `${width}×${height} px is below the minimum of ${profile.minWidth ?? 0}×${profile.minHeight ?? 0} px`,
+    aboveMaximum && `${width}×${height} px is above the maximum of ${profile.maxWidth ?? '∞'}×${profile.maxHeight ?? '∞'} px`
+  ])
+}